@@ -0,0 +1,167 @@
+// Re-encrypts account credentials (product items, delivered orders and staged imports) under
+// the current ITEM_ENCRYPTION_KEYS key: legacy plaintext rows get encrypted and rows sealed
+// with an older key are moved to the current one. Safe to re-run and to run while the app is
+// serving traffic (each row is only rewritten if it hasn't changed since it was read). Keep the
+// old key in ITEM_ENCRYPTION_KEYS until this reports 0 left.
+//
+//   npm run items:rotate-keys            # rewrite rows
+//   npm run items:rotate-keys -- --dry-run
+
+import { and, asc, eq, gt, isNotNull, sql, type AnyColumn } from "drizzle-orm";
+import { db, pool } from "../server/db";
+import { currentKeyId, decryptContent, encryptContent } from "../server/itemCrypto";
+import { itemImports, orders, productItems } from "../shared/schema";
+
+const BATCH_SIZE = 200;
+const dryRun = process.argv.includes("--dry-run");
+
+interface Counts {
+  rewritten: number;
+  skipped: number;
+  failed: number;
+}
+
+// Plain prefix comparison: a LIKE pattern would treat "_" and "%" in the key id as wildcards
+function notStartingWith(column: AnyColumn, prefix: string) {
+  return sql`NOT starts_with(${column}, ${prefix})`;
+}
+
+type Row = { id: string; value: string };
+
+// Walks one encrypted column in id order, re-sealing every value not already under the current
+// key. `write` does a conditional update and returns false if the row changed since it was read.
+async function rotateColumn(
+  label: string,
+  fetchBatch: (lastId: string) => Promise<Row[]>,
+  write: (row: Row, sealed: string) => Promise<boolean>
+): Promise<Counts> {
+  const counts: Counts = { rewritten: 0, skipped: 0, failed: 0 };
+  let lastId = "";
+
+  for (;;) {
+    const rows = await fetchBatch(lastId);
+    if (rows.length === 0) break;
+    lastId = rows[rows.length - 1].id;
+
+    for (const row of rows) {
+      try {
+        const sealed = encryptContent(decryptContent(row.value));
+        if (dryRun) {
+          counts.rewritten++;
+          continue;
+        }
+        if (await write(row, sealed)) counts.rewritten++;
+        else counts.skipped++;
+      } catch (error: any) {
+        console.error(`${label} ${row.id}: ${error.message}`);
+        counts.failed++;
+      }
+    }
+  }
+  return counts;
+}
+
+function rotateProductItems(prefix: string): Promise<Counts> {
+  return rotateColumn(
+    "product_items",
+    (lastId) => db
+      .select({ id: productItems.id, value: productItems.content })
+      .from(productItems)
+      .where(and(gt(productItems.id, lastId), notStartingWith(productItems.content, prefix)))
+      .orderBy(asc(productItems.id))
+      .limit(BATCH_SIZE),
+    async (row, sealed) => {
+      const updated = await db
+        .update(productItems)
+        .set({ content: sealed })
+        .where(and(eq(productItems.id, row.id), eq(productItems.content, row.value)))
+        .returning({ id: productItems.id });
+      return updated.length > 0;
+    }
+  );
+}
+
+function rotateOrders(prefix: string): Promise<Counts> {
+  return rotateColumn(
+    "orders",
+    async (lastId) => {
+      const rows = await db
+        .select({ id: orders.id, value: orders.deliveredContent })
+        .from(orders)
+        .where(and(gt(orders.id, lastId), isNotNull(orders.deliveredContent), notStartingWith(orders.deliveredContent, prefix)))
+        .orderBy(asc(orders.id))
+        .limit(BATCH_SIZE);
+      return rows.map((row) => ({ id: row.id, value: row.value! }));
+    },
+    async (row, sealed) => {
+      const updated = await db
+        .update(orders)
+        .set({ deliveredContent: sealed })
+        .where(and(eq(orders.id, row.id), eq(orders.deliveredContent, row.value)))
+        .returning({ id: orders.id });
+      return updated.length > 0;
+    }
+  );
+}
+
+// Staged uploads waiting for the seller to accept them (the payload is cleared on commit/expiry)
+function rotateItemImports(prefix: string): Promise<Counts> {
+  return rotateColumn(
+    "item_imports",
+    async (lastId) => {
+      const rows = await db
+        .select({ id: itemImports.id, value: itemImports.payload })
+        .from(itemImports)
+        .where(and(gt(itemImports.id, lastId), isNotNull(itemImports.payload), notStartingWith(itemImports.payload, prefix)))
+        .orderBy(asc(itemImports.id))
+        .limit(BATCH_SIZE);
+      return rows.map((row) => ({ id: row.id, value: row.value! }));
+    },
+    async (row, sealed) => {
+      const updated = await db
+        .update(itemImports)
+        .set({ payload: sealed })
+        .where(and(eq(itemImports.id, row.id), eq(itemImports.payload, row.value)))
+        .returning({ id: itemImports.id });
+      return updated.length > 0;
+    }
+  );
+}
+
+async function main() {
+  const keyId = currentKeyId();
+  if (!keyId) {
+    throw new Error("ITEM_ENCRYPTION_KEYS is not set");
+  }
+  const prefix = `enc:v1:${keyId}:`;
+  console.log(`Rotating item credentials to key "${keyId}"${dryRun ? " (dry run)" : ""}`);
+
+  const results: [string, Counts][] = [
+    ["product_items", await rotateProductItems(prefix)],
+    ["orders", await rotateOrders(prefix)],
+    ["item_imports", await rotateItemImports(prefix)],
+  ];
+  for (const [label, counts] of results) {
+    console.log(dryRun
+      ? `${label}: ${counts.rewritten} to rewrite, ${counts.failed} failed`
+      : `${label}: ${counts.rewritten} rewritten, ${counts.skipped} changed concurrently, ${counts.failed} failed`);
+  }
+
+  const pending = results.reduce((sum, [, counts]) => sum + counts.rewritten, 0);
+  const failed = results.reduce((sum, [, counts]) => sum + counts.failed, 0);
+  if (dryRun) {
+    // Nothing was written, so every row counted above is still on an old key (or plaintext)
+    console.log(`${pending + failed} rows left on old keys (${failed} could not be decrypted)`);
+  } else {
+    // Rows that changed under us were written by the app, which always uses the current key
+    console.log(failed === 0 ? "0 rows left on old keys" : `${failed} rows could not be decrypted - keep the old keys`);
+  }
+  if (failed > 0) process.exitCode = 1;
+}
+
+main()
+  .catch((error) => {
+    console.error(error);
+    process.exitCode = 1;
+  })
+  .finally(() => pool.end());
@@ -0,0 +1,238 @@
+// Account lines are "|"-separated fields in a fixed order per format. The first field of
+// every format identifies the account, which keeps hashUid() (hash of the text before the
+// first "|") valid as the duplicate key.
+
+export type AccountField =
+  | "uid"
+  | "username"
+  | "email"
+  | "phone"
+  | "password"
+  | "twoFactor"
+  | "emailPassword"
+  | "recoveryEmail"
+  | "cookie"
+  | "token";
+
+export interface AccountFormat {
+  id: string;
+  label: string;
+  fields: AccountField[];
+  required: AccountField[];
+  // Raw format only: extra trailing fields are folded into the last one instead of rejected
+  lenient?: boolean;
+}
+
+export const FIELD_LABELS: Record<AccountField, string> = {
+  uid: "UID",
+  username: "Tên đăng nhập",
+  email: "Email",
+  phone: "Số điện thoại",
+  password: "Mật khẩu",
+  twoFactor: "Mã 2FA",
+  emailPassword: "Mật khẩu email",
+  recoveryEmail: "Email khôi phục",
+  cookie: "Cookie",
+  token: "Token",
+};
+
+// Credentials; everything else is an identifier that may be stored outside the encrypted content
+const SECRET_FIELDS = new Set<AccountField>(["password", "twoFactor", "emailPassword", "cookie", "token"]);
+
+export const ACCOUNT_FORMATS: Record<string, AccountFormat> = {
+  facebook: {
+    id: "facebook",
+    label: "Facebook (uid|pass|2fa|email|passmail|cookie)",
+    fields: ["uid", "password", "twoFactor", "email", "emailPassword", "cookie"],
+    required: ["uid", "password"],
+  },
+  gmail: {
+    id: "gmail",
+    label: "Gmail (email|pass|email khôi phục)",
+    fields: ["email", "password", "recoveryEmail"],
+    required: ["email", "password"],
+  },
+  tiktok: {
+    id: "tiktok",
+    label: "TikTok (username|pass|email|passmail|cookie)",
+    fields: ["username", "password", "email", "emailPassword", "cookie"],
+    required: ["username", "password"],
+  },
+  instagram: {
+    id: "instagram",
+    label: "Instagram (username|pass|2fa|email|passmail|cookie)",
+    fields: ["username", "password", "twoFactor", "email", "emailPassword", "cookie"],
+    required: ["username", "password"],
+  },
+  zalo: {
+    id: "zalo",
+    label: "Zalo (sđt|pass|cookie)",
+    fields: ["phone", "password", "cookie"],
+    required: ["phone", "password"],
+  },
+  raw: {
+    id: "raw",
+    label: "Tự do (uid|pass|...)",
+    fields: ["uid", "password", "twoFactor", "email", "emailPassword", "cookie"],
+    required: ["uid"],
+    lenient: true,
+  },
+};
+
+// Default format for a product's platform; platforms without one use "raw"
+export function formatForPlatform(platform?: string | null): AccountFormat {
+  return ACCOUNT_FORMATS[(platform || "").toLowerCase()] ?? ACCOUNT_FORMATS.raw;
+}
+
+export function getAccountFormat(id?: string | null): AccountFormat | undefined {
+  return id ? ACCOUNT_FORMATS[id] : undefined;
+}
+
+const VALIDATORS: Partial<Record<AccountField, (value: string) => string | null>> = {
+  uid: (value) => (/^\d{5,20}$/.test(value) ? null : "UID phải là dãy số"),
+  email: (value) => (/^[^\s@|]+@[^\s@|]+\.[^\s@|]+$/.test(value) ? null : "Email không hợp lệ"),
+  recoveryEmail: (value) => (/^[^\s@|]+@[^\s@|]+\.[^\s@|]+$/.test(value) ? null : "Email khôi phục không hợp lệ"),
+  phone: (value) => (/^(\+?84|0)\d{8,10}$/.test(value.replace(/[\s.-]/g, "")) ? null : "Số điện thoại không hợp lệ"),
+  username: (value) => (/^[\w.@-]{2,64}$/.test(value) ? null : "Tên đăng nhập không hợp lệ"),
+  twoFactor: (value) => (/^[A-Z2-7]{16,64}$/i.test(value.replace(/\s+/g, "")) ? null : "Mã 2FA phải là chuỗi base32"),
+  cookie: (value) => (value.includes("=") ? null : "Cookie không hợp lệ"),
+};
+
+export type AccountFields = Partial<Record<AccountField, string>>;
+
+export interface ParsedAccount {
+  line: number;
+  content: string; // normalized line, as stored (encrypted) in product_items.content
+  fields: AccountFields;
+}
+
+export type AccountLineErrorReason = "malformed" | "duplicate_in_file" | "duplicate_in_db";
+
+export interface AccountLineError {
+  line: number;
+  identity: string | null;
+  reason: AccountLineErrorReason;
+  message: string;
+}
+
+export interface AccountParseResult {
+  format: AccountFormat;
+  accounts: ParsedAccount[];
+  errors: AccountLineError[];
+}
+
+// Splits one line into the format's fields, or returns the reason it doesn't fit
+export function parseAccountLine(format: AccountFormat, line: string): { fields: AccountFields; content: string } | { error: string } {
+  let parts = line.split("|").map((part) => part.trim());
+  while (parts.length > 1 && parts[parts.length - 1] === "") parts.pop();
+
+  if (parts.length > format.fields.length) {
+    if (!format.lenient) {
+      return { error: `Có ${parts.length} trường, định dạng chỉ có ${format.fields.length}` };
+    }
+    parts = [...parts.slice(0, format.fields.length - 1), parts.slice(format.fields.length - 1).join("|")];
+  }
+
+  const fields: AccountFields = {};
+  format.fields.forEach((field, index) => {
+    if (parts[index]) fields[field] = parts[index];
+  });
+
+  for (const field of format.required) {
+    if (!fields[field]) return { error: `Thiếu trường ${FIELD_LABELS[field]}` };
+  }
+  if (!format.lenient) {
+    for (const [field, value] of Object.entries(fields) as [AccountField, string][]) {
+      const problem = VALIDATORS[field]?.(value);
+      if (problem) return { error: problem };
+    }
+  }
+
+  return { fields, content: parts.join("|") };
+}
+
+/**
+ * Parses an upload (one account per line). Bad lines are reported with their line number
+ * instead of failing the whole upload; repeated accounts within the upload count as errors.
+ */
+export function parseAccountLines(text: string, format: AccountFormat): AccountParseResult {
+  const accounts: ParsedAccount[] = [];
+  const errors: AccountLineError[] = [];
+  const seen = new Set<string>();
+
+  text.split(/\r?\n/).forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+    const lineNumber = index + 1;
+
+    const parsed = parseAccountLine(format, line);
+    if ("error" in parsed) {
+      errors.push({ line: lineNumber, identity: accountIdentity(line), reason: "malformed", message: parsed.error });
+      return;
+    }
+
+    const identity = accountIdentity(parsed.content)!;
+    if (seen.has(identity)) {
+      errors.push({ line: lineNumber, identity, reason: "duplicate_in_file", message: "Tài khoản bị lặp trong file" });
+      return;
+    }
+    seen.add(identity);
+    accounts.push({ line: lineNumber, content: parsed.content, fields: parsed.fields });
+  });
+
+  return { format, accounts, errors };
+}
+
+// The identifying first field, safe to echo back in error reports
+export function accountIdentity(line: string): string | null {
+  const identity = line.split("|")[0]?.trim();
+  return identity ? identity.slice(0, 64) : null;
+}
+
+// The non-secret fields, for product_items.account_fields
+export function publicAccountFields(fields: AccountFields): AccountFields {
+  return Object.fromEntries(
+    Object.entries(fields).filter(([field]) => !SECRET_FIELDS.has(field as AccountField))
+  ) as AccountFields;
+}
+
+// ---------- Export ----------
+
+export type AccountExportFormat = "txt" | "csv" | "json";
+
+// Field order for an export: the buyer's choice, or the union of the formats' own orders
+export function resolveExportFields(requested: string | undefined, formats: AccountFormat[]): AccountField[] {
+  if (requested) {
+    const fields = requested
+      .split(",")
+      .map((field) => field.trim())
+      .filter((field): field is AccountField => Object.hasOwn(FIELD_LABELS, field));
+    if (fields.length > 0) return Array.from(new Set(fields));
+  }
+  const ordered: AccountField[] = [];
+  for (const format of formats) {
+    for (const field of format.fields) {
+      if (!ordered.includes(field)) ordered.push(field);
+    }
+  }
+  return ordered;
+}
+
+function csvCell(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+export function renderAccountExport(accounts: AccountFields[], fields: AccountField[], type: AccountExportFormat): string {
+  if (type === "json") {
+    return JSON.stringify(
+      accounts.map((account) => Object.fromEntries(fields.map((field) => [field, account[field] ?? null]))),
+      null,
+      2
+    );
+  }
+  if (type === "csv") {
+    const rows = accounts.map((account) => fields.map((field) => csvCell(account[field] ?? "")).join(","));
+    return [fields.join(","), ...rows].join("\r\n");
+  }
+  return accounts.map((account) => fields.map((field) => account[field] ?? "").join("|")).join("\n");
+}
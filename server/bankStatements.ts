@@ -0,0 +1,200 @@
+import crypto from "crypto";
+
+// An incoming transfer, whatever the source (provider webhook, CSV statement, local stub)
+export interface IncomingBankTransaction {
+  externalId: string;
+  amount: string;
+  description: string;
+  transactedAt: Date | null;
+  raw: unknown;
+}
+
+// Codes a buyer may put in the transfer memo
+export interface PaymentCodes {
+  orderCodes: string[];
+  checkoutCodes: string[];
+}
+
+// Banks rewrite memos freely: diacritics dropped, dashes and spaces removed or added,
+// everything upper-cased. Compare codes on the bare A-Z0-9 form.
+export function normalizeMemo(memo: string): string {
+  return memo
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/đ/gi, "D")
+    .toUpperCase()
+    .replace(/[^A-Z0-9]/g, "");
+}
+
+// Order codes are DH-xxxxxxxxXXXX and checkout codes GH-xxxxxxxxXXXX (see storage.ts)
+export function extractPaymentCodes(memo: string): PaymentCodes {
+  const normalized = normalizeMemo(memo);
+  const find = (prefix: string) =>
+    Array.from(new Set(
+      Array.from(normalized.matchAll(new RegExp(`${prefix}(\\d{8}[A-Z0-9]{4})`, "g"))).map((m) => `${prefix}-${m[1]}`)
+    ));
+  return { orderCodes: find("DH"), checkoutCodes: find("GH") };
+}
+
+export function amountsMatch(received: string, expected: string): boolean {
+  return Math.abs(parseFloat(received) - parseFloat(expected)) < 0.005;
+}
+
+// "1.500.000", "1,500,000", "1500000.00", "+1,500,000 VND" -> "1500000.00"
+export function parseAmount(value: unknown): string | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) ? value.toFixed(2) : null;
+  }
+  if (typeof value !== "string") return null;
+
+  let text = value.replace(/[^\d.,-]/g, "");
+  const decimal = text.match(/^-?\d+[.,]\d{1,2}$/);
+  if (decimal) {
+    text = text.replace(",", ".");
+  } else {
+    text = text.replace(/[.,]/g, "");
+  }
+  const amount = parseFloat(text);
+  return Number.isFinite(amount) ? amount.toFixed(2) : null;
+}
+
+function parseDate(value: unknown): Date | null {
+  if (!value) return null;
+  const date = new Date(String(value));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Accepts the notification shapes we receive:
+ *  - Casso:  { data: [{ id, tid, description, amount, when }] }
+ *  - SePay:  { id, content, transferAmount, transferType, transactionDate, referenceCode }
+ *  - stub:   { transactions: [{ id, amount, description, when }] }  (local testing / other providers)
+ * Outgoing transfers are dropped.
+ */
+export function parseProviderPayload(body: any): { provider: string; transactions: IncomingBankTransaction[] } {
+  if (Array.isArray(body?.data)) {
+    return {
+      provider: "casso",
+      transactions: body.data
+        .map((row: any) => ({
+          externalId: String(row.tid ?? row.id ?? ""),
+          amount: parseAmount(row.amount),
+          description: String(row.description ?? ""),
+          transactedAt: parseDate(row.when),
+          raw: row,
+        }))
+        .filter(isIncoming),
+    };
+  }
+
+  if (body && body.transferAmount !== undefined) {
+    const txn = {
+      externalId: String(body.id ?? body.referenceCode ?? ""),
+      amount: body.transferType === "out" ? null : parseAmount(body.transferAmount),
+      description: String(body.content ?? body.description ?? ""),
+      transactedAt: parseDate(body.transactionDate),
+      raw: body,
+    };
+    return { provider: "sepay", transactions: [txn].filter(isIncoming) };
+  }
+
+  if (Array.isArray(body?.transactions)) {
+    return {
+      provider: "stub",
+      transactions: body.transactions
+        .map((row: any) => ({
+          externalId: String(row.id ?? ""),
+          amount: parseAmount(row.amount),
+          description: String(row.description ?? ""),
+          transactedAt: parseDate(row.when),
+          raw: row,
+        }))
+        .filter(isIncoming),
+    };
+  }
+
+  return { provider: "unknown", transactions: [] };
+}
+
+function isIncoming(txn: { externalId: string; amount: string | null; description: string }): txn is IncomingBankTransaction {
+  return txn.externalId !== "" && txn.amount !== null && parseFloat(txn.amount) > 0;
+}
+
+// Minimal RFC 4180 splitter: quoted fields, "" escapes, commas or semicolons
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = [];
+  let current = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        current += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      fields.push(current.trim());
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  fields.push(current.trim());
+  return fields;
+}
+
+const CSV_COLUMNS = {
+  id: ["id", "magd", "magiaodich", "transactionid", "reference", "sothamchieu", "sobutoan"],
+  amount: ["amount", "sotien", "credit", "ghico", "tienvao", "sotienghico"],
+  description: ["description", "content", "memo", "noidung", "diengiai", "mota", "noidungchuyenkhoan"],
+  date: ["date", "when", "ngay", "ngaygiaodich", "transactiondate", "thoigian"],
+};
+
+/**
+ * Parses a bank statement export. The header row is located by column names (English or
+ * Vietnamese, case/diacritics-insensitive); rows without a positive credit are skipped.
+ * Statements without an ID column get a content hash so re-uploading is idempotent.
+ */
+export function parseStatementCsv(text: string): IncomingBankTransaction[] {
+  const lines = text.replace(/^\uFEFF/, "").split(/\r?\n/).filter((line) => line.trim() !== "");
+  if (lines.length === 0) return [];
+
+  const delimiter = (lines[0].match(/;/g)?.length ?? 0) > (lines[0].match(/,/g)?.length ?? 0) ? ";" : ",";
+  const header = splitCsvLine(lines[0], delimiter).map((name) => normalizeMemo(name).toLowerCase());
+  const column = (names: string[]) => header.findIndex((name) => names.includes(name));
+  const idCol = column(CSV_COLUMNS.id);
+  const amountCol = column(CSV_COLUMNS.amount);
+  const descriptionCol = column(CSV_COLUMNS.description);
+  const dateCol = column(CSV_COLUMNS.date);
+
+  if (amountCol === -1 || descriptionCol === -1) {
+    throw new Error("File sao kê cần có cột số tiền và nội dung giao dịch");
+  }
+
+  const transactions: IncomingBankTransaction[] = [];
+  for (const line of lines.slice(1)) {
+    const fields = splitCsvLine(line, delimiter);
+    const amount = parseAmount(fields[amountCol]);
+    const description = fields[descriptionCol] ?? "";
+    if (!amount || parseFloat(amount) <= 0) continue;
+
+    const externalId = idCol !== -1 && fields[idCol]
+      ? fields[idCol]
+      : crypto.createHash("sha256").update(line).digest("hex").slice(0, 32);
+
+    transactions.push({
+      externalId,
+      amount,
+      description,
+      transactedAt: dateCol !== -1 ? parseDate(fields[dateCol]) : null,
+      raw: Object.fromEntries(header.map((name, i) => [name, fields[i] ?? ""])),
+    });
+  }
+  return transactions;
+}
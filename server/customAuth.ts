@@ -1,10 +1,134 @@
-import type { Express, RequestHandler } from "express";
+import type { Express, Request, RequestHandler } from "express";
 import session from "express-session";
 import connectPg from "connect-pg-simple";
 import bcrypt from "bcryptjs";
+import crypto from "crypto";
+import QRCode from "qrcode";
 import { storage } from "./storage";
+import { queueAccountEmail } from "./email";
+import { rateLimit, lockoutMessage, LOGIN_LOCKOUT_POLICY } from "./rateLimit";
+import { describeUserAgent, deviceFingerprint, publicSessionId, type SessionDevice } from "./devices";
+import { generateTotpSecret, verifyTotp, buildOtpAuthUri, generateBackupCodes, hashBackupCode } from "./totp";
+import type { User, AuthToken } from "@shared/schema";
+
+const ADMIN_ACCOUNT_EMAIL = "admin@taphoavietmax.vn";
+const RESET_TOKEN_TTL_MS = 60 * 60 * 1000; // 1 hour
+const VERIFICATION_TOKEN_TTL_MS = 24 * 60 * 60 * 1000; // 24 hours
+
+function hashToken(token: string): string {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+// Constant-time comparison for secrets of any length
+function safeEqual(provided: string, expected: string): boolean {
+  return crypto.timingSafeEqual(
+    crypto.createHash("sha256").update(provided).digest(),
+    crypto.createHash("sha256").update(expected).digest()
+  );
+}
+
+// Creates a single-use token and emails the link; only the hash is stored
+async function sendAccountLink(user: User, type: AuthToken["type"]): Promise<void> {
+  const token = crypto.randomBytes(32).toString("base64url");
+  const ttl = type === "password_reset" ? RESET_TOKEN_TTL_MS : VERIFICATION_TOKEN_TTL_MS;
+  await storage.createAuthToken(user.id, type, hashToken(token), new Date(Date.now() + ttl));
+  await queueAccountEmail(user, type, token);
+}
+
+const TWO_FACTOR_LOGIN_TTL_MS = 5 * 60 * 1000;
+const TWO_FACTOR_LOGIN_MAX_ATTEMPTS = 5;
+
+// Accepts a current TOTP code or an unused backup code (which is then spent)
+async function verifySecondFactor(userId: string, code: unknown): Promise<boolean> {
+  if (!code || typeof code !== "string") return false;
+  const twoFactor = await storage.getTwoFactor(userId);
+  if (!twoFactor?.enabledAt) return false;
+
+  const step = verifyTotp(twoFactor.secret, code);
+  if (step !== null) {
+    return storage.recordTwoFactorStep(userId, step);
+  }
+  return storage.consumeBackupCode(userId, hashBackupCode(code));
+}
+
+async function issueBackupCodes(userId: string): Promise<string[]> {
+  const codes = generateBackupCodes();
+  await storage.replaceBackupCodes(userId, codes.map(hashBackupCode));
+  return codes;
+}
+
+// Callbacks into the rest of the app (routes.ts owns notification delivery)
+export interface AuthHooks {
+  onNewDeviceLogin?: (user: User, device: SessionDevice) => Promise<unknown>;
+  // The user's sessions (all, or all but the current one) were deleted; open realtime
+  // connections should go too - the current tab reconnects with its still-valid session
+  onSessionsRevoked?: (userId: string) => void;
+}
+
+const SESSION_TOUCH_INTERVAL_MS = 5 * 60 * 1000;
+
+function currentDevice(req: Request): SessionDevice {
+  const userAgent = req.get("User-Agent") || "";
+  const now = new Date().toISOString();
+  return { userAgent, label: describeUserAgent(userAgent), ip: req.ip ?? null, loginAt: now, lastActiveAt: now };
+}
+
+// Logs the user into this session and records the device, warning the user when it is one
+// they haven't logged in from before
+async function startUserSession(req: Request, user: User, hooks: AuthHooks): Promise<void> {
+  const device = currentDevice(req);
+  (req.session as any).userId = user.id;
+  (req.session as any).userRole = user.role;
+  (req.session as any).device = device;
+
+  try {
+    const { isNew, isFirst } = await storage.recordUserDevice(user.id, deviceFingerprint(device.userAgent), device.label, device.ip);
+    if (isNew && !isFirst && hooks.onNewDeviceLogin) {
+      await hooks.onNewDeviceLogin(user, device);
+    }
+  } catch (error) {
+    console.error("Error recording login device:", error);
+  }
+}
+
+function loginResponse(user: User) {
+  return {
+    id: user.id,
+    email: user.email,
+    firstName: user.firstName,
+    lastName: user.lastName,
+    role: user.role,
+  };
+}
+
+// After a correct password: with 2FA on, the password only opens the second step (POST
+// /api/auth/2fa/verify); otherwise the user is logged in. Returns the response body.
+async function completePasswordLogin(req: Request, user: User, hooks: AuthHooks): Promise<Record<string, unknown>> {
+  const twoFactor = await storage.getTwoFactor(user.id);
+  if (twoFactor?.enabledAt) {
+    delete (req.session as any).userId;
+    delete (req.session as any).userRole;
+    (req.session as any).pendingTwoFactor = {
+      userId: user.id,
+      expiresAt: Date.now() + TWO_FACTOR_LOGIN_TTL_MS,
+      attempts: 0,
+    };
+    return { twoFactorRequired: true };
+  }
+
+  await storage.clearLoginFailures(user.id);
+  await startUserSession(req, user, hooks);
+
+  // Admins must enroll before they can use the admin routes
+  return { ...loginResponse(user), twoFactorSetupRequired: user.role === "admin" };
+}
+
+let sessionMiddleware: RequestHandler | null = null;
+
+// One instance, shared by the express app and the WebSocket upgrade handler
+export function getSession(): RequestHandler {
+  if (sessionMiddleware) return sessionMiddleware;
 
-export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
   const sessionStore = new pgStore({
@@ -13,7 +137,7 @@ export function getSession() {
     ttl: sessionTtl,
     tableName: "sessions",
   });
-  return session({
+  sessionMiddleware = session({
     secret: process.env.SESSION_SECRET!,
     store: sessionStore,
     resave: false,
@@ -25,14 +149,28 @@ export function getSession() {
       maxAge: sessionTtl,
     },
   });
+  return sessionMiddleware;
 }
 
-export async function setupCustomAuth(app: Express) {
+export async function setupCustomAuth(app: Express, hooks: AuthHooks = {}) {
   app.set("trust proxy", 1);
   app.use(getSession());
 
+  // Keep "last active" of logged-in sessions roughly current without rewriting the session
+  // row on every request
+  app.use((req, _res, next) => {
+    const session = req.session as any;
+    if (session?.userId) {
+      const lastActive = session.device ? Date.parse(session.device.lastActiveAt) : 0;
+      if (Date.now() - lastActive > SESSION_TOUCH_INTERVAL_MS) {
+        session.device = { ...(session.device ?? currentDevice(req)), ip: req.ip ?? null, lastActiveAt: new Date().toISOString() };
+      }
+    }
+    next();
+  });
+
   // Register endpoint
-  app.post("/api/auth/register", async (req, res) => {
+  app.post("/api/auth/register", rateLimit("register"), async (req, res) => {
     try {
       const { email, password, firstName, lastName, referralCode } = req.body;
 
@@ -89,17 +227,13 @@ export async function setupCustomAuth(app: Express) {
         }
       }
 
-      // Set session
-      (req.session as any).userId = user.id;
-      (req.session as any).userRole = user.role;
-
-      res.json({
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
+      sendAccountLink(user, "email_verification").catch((err) => {
+        console.error("Error sending verification email:", err);
       });
+
+      await startUserSession(req, user, hooks);
+
+      res.json(loginResponse(user));
     } catch (error: any) {
       console.error("Register error:", error);
       res.status(500).json({ message: "Lỗi đăng ký: " + error.message });
@@ -107,7 +241,7 @@ export async function setupCustomAuth(app: Express) {
   });
 
   // Login endpoint
-  app.post("/api/auth/login", async (req, res) => {
+  app.post("/api/auth/login", rateLimit("login"), async (req, res) => {
     try {
       const { email, password } = req.body;
 
@@ -121,6 +255,11 @@ export async function setupCustomAuth(app: Express) {
         return res.status(401).json({ message: "Email hoặc mật khẩu không đúng" });
       }
 
+      const lockout = await storage.getLoginLockout(user.id);
+      if (lockout?.lockedUntil && lockout.lockedUntil > new Date()) {
+        return res.status(429).json({ message: lockoutMessage(lockout.lockedUntil), lockedUntil: lockout.lockedUntil });
+      }
+
       // Check password
       if (!user.password) {
         return res.status(401).json({ message: "Tài khoản không có mật khẩu. Vui lòng liên hệ hỗ trợ." });
@@ -128,6 +267,10 @@ export async function setupCustomAuth(app: Express) {
 
       const isValidPassword = await bcrypt.compare(password, user.password);
       if (!isValidPassword) {
+        const failure = await storage.recordLoginFailure(user.id, req.ip, LOGIN_LOCKOUT_POLICY);
+        if (failure.lockedUntil && failure.lockedUntil > new Date()) {
+          return res.status(429).json({ message: lockoutMessage(failure.lockedUntil), lockedUntil: failure.lockedUntil });
+        }
         return res.status(401).json({ message: "Email hoặc mật khẩu không đúng" });
       }
 
@@ -136,23 +279,66 @@ export async function setupCustomAuth(app: Express) {
         return res.status(403).json({ message: "Tài khoản của bạn đã bị khóa" });
       }
 
-      // Set session
-      (req.session as any).userId = user.id;
-      (req.session as any).userRole = user.role;
-
-      res.json({
-        id: user.id,
-        email: user.email,
-        firstName: user.firstName,
-        lastName: user.lastName,
-        role: user.role,
-      });
+      res.json(await completePasswordLogin(req, user, hooks));
     } catch (error: any) {
       console.error("Login error:", error);
       res.status(500).json({ message: "Lỗi đăng nhập: " + error.message });
     }
   });
 
+  // Built-in admin account (ADMIN_USERNAME / ADMIN_PASSWORD). Goes through the same 2FA step
+  // as /api/auth/login, so an enrolled admin still needs their authenticator code.
+  app.post("/api/admin/login", rateLimit("login"), async (req, res) => {
+    try {
+      const { username, password } = req.body;
+
+      const ADMIN_USERNAME = process.env.ADMIN_USERNAME;
+      const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD;
+      if (!ADMIN_USERNAME || !ADMIN_PASSWORD) {
+        return res.status(503).json({ message: "Đăng nhập admin chưa được cấu hình" });
+      }
+
+      // Failed attempts lock the admin account the same way as /api/auth/login
+      let adminUser = await storage.getUserByEmail(ADMIN_ACCOUNT_EMAIL);
+      if (adminUser) {
+        const lockout = await storage.getLoginLockout(adminUser.id);
+        if (lockout?.lockedUntil && lockout.lockedUntil > new Date()) {
+          return res.status(429).json({ message: lockoutMessage(lockout.lockedUntil), lockedUntil: lockout.lockedUntil });
+        }
+      }
+
+      if (!safeEqual(String(username ?? ""), ADMIN_USERNAME) || !safeEqual(String(password ?? ""), ADMIN_PASSWORD)) {
+        if (adminUser) {
+          const failure = await storage.recordLoginFailure(adminUser.id, req.ip, LOGIN_LOCKOUT_POLICY);
+          if (failure.lockedUntil && failure.lockedUntil > new Date()) {
+            return res.status(429).json({ message: lockoutMessage(failure.lockedUntil), lockedUntil: failure.lockedUntil });
+          }
+        }
+        return res.status(401).json({ message: "Tên đăng nhập hoặc mật khẩu không đúng" });
+      }
+
+      if (!adminUser) {
+        adminUser = await storage.createUser({
+          email: ADMIN_ACCOUNT_EMAIL,
+          password: await bcrypt.hash(ADMIN_PASSWORD, 10),
+          firstName: "Admin",
+          lastName: "System",
+        });
+      }
+      if (adminUser.role !== "admin") {
+        adminUser = await storage.updateUserRole(adminUser.id, "admin");
+      }
+      if (adminUser.status === "banned") {
+        return res.status(403).json({ message: "Tài khoản của bạn đã bị khóa" });
+      }
+
+      res.json({ message: "Đăng nhập admin thành công", ...(await completePasswordLogin(req, adminUser, hooks)) });
+    } catch (error: any) {
+      console.error("Admin login error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Logout endpoint
   app.post("/api/auth/logout", (req, res) => {
     req.session.destroy((err) => {
@@ -163,6 +349,335 @@ export async function setupCustomAuth(app: Express) {
       res.json({ message: "Đăng xuất thành công" });
     });
   });
+
+  // Second login step for accounts with 2FA
+  app.post("/api/auth/2fa/verify", rateLimit("two_factor"), async (req, res) => {
+    try {
+      const pending = (req.session as any).pendingTwoFactor;
+      if (!pending || pending.expiresAt < Date.now()) {
+        delete (req.session as any).pendingTwoFactor;
+        return res.status(401).json({ message: "Phiên đăng nhập đã hết hạn, vui lòng đăng nhập lại" });
+      }
+      if (pending.attempts >= TWO_FACTOR_LOGIN_MAX_ATTEMPTS) {
+        delete (req.session as any).pendingTwoFactor;
+        return res.status(429).json({ message: "Nhập sai quá nhiều lần, vui lòng đăng nhập lại" });
+      }
+
+      const lockout = await storage.getLoginLockout(pending.userId);
+      if (lockout?.lockedUntil && lockout.lockedUntil > new Date()) {
+        delete (req.session as any).pendingTwoFactor;
+        return res.status(429).json({ message: lockoutMessage(lockout.lockedUntil), lockedUntil: lockout.lockedUntil });
+      }
+
+      // Wrong codes count towards the account lockout just like wrong passwords
+      if (!(await verifySecondFactor(pending.userId, req.body.code))) {
+        pending.attempts++;
+        await storage.recordLoginFailure(pending.userId, req.ip, LOGIN_LOCKOUT_POLICY);
+        return res.status(401).json({ message: "Mã xác thực không đúng" });
+      }
+
+      const user = await storage.getUser(pending.userId);
+      if (!user || user.status === "banned") {
+        delete (req.session as any).pendingTwoFactor;
+        return res.status(403).json({ message: "Tài khoản của bạn đã bị khóa" });
+      }
+
+      await storage.clearLoginFailures(user.id);
+      delete (req.session as any).pendingTwoFactor;
+      await startUserSession(req, user, hooks);
+
+      res.json(loginResponse(user));
+    } catch (error: any) {
+      console.error("2FA verify error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // 2FA status of the logged-in user
+  app.get("/api/auth/2fa", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.id;
+      const twoFactor = await storage.getTwoFactor(userId);
+      res.json({
+        enabled: Boolean(twoFactor?.enabledAt),
+        enabledAt: twoFactor?.enabledAt ?? null,
+        required: (req as any).user.role === "admin",
+        backupCodesRemaining: twoFactor?.enabledAt ? await storage.countBackupCodes(userId) : 0,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Enrollment step 1: a new secret, as a provisioning URI and QR code for the authenticator app
+  app.post("/api/auth/2fa/setup", isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser((req as any).user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const secret = generateTotpSecret();
+      const row = await storage.startTwoFactorSetup(user.id, secret);
+      if (!row) {
+        return res.status(400).json({ message: "Xác thực hai lớp đã được bật" });
+      }
+
+      const issuer = (await storage.getSystemSetting("site_name")) || "Marketplace";
+      const otpauthUri = buildOtpAuthUri(secret, user.email || user.id, issuer);
+      res.json({
+        secret,
+        otpauthUri,
+        qrCode: await QRCode.toDataURL(otpauthUri, { errorCorrectionLevel: "M", margin: 2 }),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Enrollment step 2: confirm a code from the app. Returns the backup codes, shown only once;
+  // other sessions are logged out since they never passed the second factor
+  app.post("/api/auth/2fa/enable", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.id;
+      const twoFactor = await storage.getTwoFactor(userId);
+      if (!twoFactor) {
+        return res.status(400).json({ message: "Vui lòng bắt đầu thiết lập xác thực hai lớp trước" });
+      }
+      if (twoFactor.enabledAt) {
+        return res.status(400).json({ message: "Xác thực hai lớp đã được bật" });
+      }
+
+      const step = typeof req.body.code === "string" ? verifyTotp(twoFactor.secret, req.body.code) : null;
+      if (step === null) {
+        return res.status(400).json({ message: "Mã xác thực không đúng" });
+      }
+
+      const backupCodes = generateBackupCodes();
+      const enabled = await storage.enableTwoFactor(userId, step, backupCodes.map(hashBackupCode));
+      if (!enabled) {
+        return res.status(409).json({ message: "Xác thực hai lớp đã được bật" });
+      }
+      await storage.deleteUserSessions(userId, req.sessionID);
+      hooks.onSessionsRevoked?.(userId);
+
+      res.json({ message: "Đã bật xác thực hai lớp", backupCodes });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // New set of backup codes; the old ones stop working
+  app.post("/api/auth/2fa/backup-codes", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.id;
+      if (!(await verifySecondFactor(userId, req.body.code))) {
+        return res.status(403).json({ message: "Mã xác thực không đúng" });
+      }
+      res.json({ backupCodes: await issueBackupCodes(userId) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Turning 2FA off needs both the password and a code; admins can't turn it off
+  app.post("/api/auth/2fa/disable", isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser((req as any).user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.role === "admin") {
+        return res.status(400).json({ message: "Tài khoản quản trị bắt buộc dùng xác thực hai lớp" });
+      }
+
+      const { password, code } = req.body;
+      if (!password || !user.password || !(await bcrypt.compare(password, user.password))) {
+        return res.status(403).json({ message: "Mật khẩu không đúng" });
+      }
+      if (!(await verifySecondFactor(user.id, code))) {
+        return res.status(403).json({ message: "Mã xác thực không đúng" });
+      }
+
+      await storage.disableTwoFactor(user.id);
+      res.json({ message: "Đã tắt xác thực hai lớp" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Active sessions of the logged-in user, newest activity first
+  app.get("/api/auth/sessions", isAuthenticated, async (req, res) => {
+    try {
+      const rows = await storage.getUserSessions((req as any).user.id);
+      const list = rows.map((row) => {
+        const device = (row.sess as any).device as SessionDevice | undefined;
+        return {
+          id: publicSessionId(row.sid),
+          current: row.sid === req.sessionID,
+          device: device?.label ?? "Thiết bị không xác định",
+          userAgent: device?.userAgent ?? null,
+          ipAddress: device?.ip ?? null,
+          loginAt: device?.loginAt ?? null,
+          lastActiveAt: device?.lastActiveAt ?? null,
+          expiresAt: row.expire,
+        };
+      });
+      list.sort((a, b) => (b.lastActiveAt ?? "").localeCompare(a.lastActiveAt ?? ""));
+      res.json(list);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Log out every other session
+  app.delete("/api/auth/sessions", isAuthenticated, async (req, res) => {
+    try {
+      const revoked = await storage.deleteUserSessions((req as any).user.id, req.sessionID);
+      hooks.onSessionsRevoked?.((req as any).user.id);
+      res.json({ message: "Đã đăng xuất khỏi các thiết bị khác", revoked });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Log out one session, by the id from the list above
+  app.delete("/api/auth/sessions/:id", isAuthenticated, async (req, res) => {
+    try {
+      const userId = (req as any).user.id;
+      const target = (await storage.getUserSessions(userId)).find((row) => publicSessionId(row.sid) === req.params.id);
+      if (!target) {
+        return res.status(404).json({ message: "Không tìm thấy phiên đăng nhập" });
+      }
+      if (target.sid === req.sessionID) {
+        return res.status(400).json({ message: "Dùng chức năng đăng xuất để thoát phiên hiện tại" });
+      }
+
+      await storage.deleteUserSession(userId, target.sid);
+      res.json({ message: "Đã đăng xuất thiết bị" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Forgot password - always answers the same way so it can't be used to probe for accounts
+  app.post("/api/auth/forgot-password", rateLimit("password_reset"), async (req, res) => {
+    try {
+      const { email } = req.body;
+      if (!email || typeof email !== "string") {
+        return res.status(400).json({ message: "Email là bắt buộc" });
+      }
+
+      const user = await storage.getUserByEmail(email.trim());
+      if (user && user.status !== "banned") {
+        await sendAccountLink(user, "password_reset");
+      }
+
+      res.json({ message: "Nếu email tồn tại trong hệ thống, bạn sẽ nhận được hướng dẫn đặt lại mật khẩu" });
+    } catch (error: any) {
+      console.error("Forgot password error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Reset password with the emailed token; every existing session of the user is logged out
+  app.post("/api/auth/reset-password", rateLimit("password_reset"), async (req, res) => {
+    try {
+      const { token, password } = req.body;
+      if (!token || typeof token !== "string" || !password) {
+        return res.status(400).json({ message: "Token và mật khẩu mới là bắt buộc" });
+      }
+      if (password.length < 6) {
+        return res.status(400).json({ message: "Mật khẩu phải có ít nhất 6 ký tự" });
+      }
+
+      const authToken = await storage.consumeAuthToken(hashToken(token), "password_reset");
+      if (!authToken) {
+        return res.status(400).json({ message: "Liên kết đặt lại mật khẩu không hợp lệ hoặc đã hết hạn" });
+      }
+
+      const hashedPassword = await bcrypt.hash(password, 10);
+      // The link arrived by email, so following it also proves the address
+      const user = await storage.markEmailVerified(authToken.userId);
+      await storage.updateUser(user.id, { password: hashedPassword });
+      await storage.deleteUserSessions(user.id);
+      hooks.onSessionsRevoked?.(user.id);
+      await storage.clearLoginFailures(user.id);
+
+      res.json({ message: "Đặt lại mật khẩu thành công. Vui lòng đăng nhập lại" });
+    } catch (error: any) {
+      console.error("Reset password error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Verify email with the emailed token (works without being logged in)
+  app.post("/api/auth/verify-email", async (req, res) => {
+    try {
+      const { token } = req.body;
+      if (!token || typeof token !== "string") {
+        return res.status(400).json({ message: "Token là bắt buộc" });
+      }
+
+      const authToken = await storage.consumeAuthToken(hashToken(token), "email_verification");
+      if (!authToken) {
+        return res.status(400).json({ message: "Liên kết xác minh không hợp lệ hoặc đã hết hạn" });
+      }
+
+      const user = await storage.markEmailVerified(authToken.userId);
+      res.json({ message: "Xác minh email thành công", emailVerifiedAt: user.emailVerifiedAt });
+    } catch (error: any) {
+      console.error("Verify email error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Send a fresh verification link to the logged-in user
+  app.post("/api/auth/resend-verification", isAuthenticated, async (req, res) => {
+    try {
+      const user = await storage.getUser((req as any).user.id);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+      if (user.emailVerifiedAt) {
+        return res.status(400).json({ message: "Email đã được xác minh" });
+      }
+
+      await sendAccountLink(user, "email_verification");
+      res.json({ message: "Đã gửi lại email xác minh" });
+    } catch (error: any) {
+      console.error("Resend verification error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Change password; other sessions are logged out, the current one stays
+  app.post("/api/auth/change-password", isAuthenticated, async (req, res) => {
+    try {
+      const { currentPassword, newPassword } = req.body;
+      if (!currentPassword || !newPassword) {
+        return res.status(400).json({ message: "Mật khẩu hiện tại và mật khẩu mới là bắt buộc" });
+      }
+      if (newPassword.length < 6) {
+        return res.status(400).json({ message: "Mật khẩu phải có ít nhất 6 ký tự" });
+      }
+
+      const user = await storage.getUser((req as any).user.id);
+      if (!user?.password || !(await bcrypt.compare(currentPassword, user.password))) {
+        return res.status(400).json({ message: "Mật khẩu hiện tại không đúng" });
+      }
+
+      const hashedPassword = await bcrypt.hash(newPassword, 10);
+      await storage.updateUser(user.id, { password: hashedPassword });
+      await storage.deleteUserSessions(user.id, req.sessionID);
+      hooks.onSessionsRevoked?.(user.id);
+
+      res.json({ message: "Đổi mật khẩu thành công" });
+    } catch (error: any) {
+      console.error("Change password error:", error);
+      res.status(500).json({ message: error.message });
+    }
+  });
 }
 
 // Middleware to check if user is authenticated
@@ -206,6 +721,14 @@ export const requireRole = (roles: Array<"buyer" | "seller" | "admin">): Request
       return res.status(403).json({ message: "Forbidden: insufficient permissions" });
     }
 
+    // 2FA is mandatory for admins; until they enroll only the /api/auth/2fa routes work
+    if (dbUser.role === "admin" && !(await storage.getTwoFactor(dbUser.id))?.enabledAt) {
+      return res.status(403).json({
+        message: "Vui lòng bật xác thực hai lớp (2FA) để sử dụng chức năng quản trị",
+        code: "TWO_FACTOR_SETUP_REQUIRED",
+      });
+    }
+
     (req as any).user = {
       id: dbUser.id,
       role: dbUser.role,
@@ -214,3 +737,46 @@ export const requireRole = (roles: Array<"buyer" | "seller" | "admin">): Request
     return next();
   };
 };
+
+// Blocks purchases from unverified accounts when the admin turns on
+// the require_verified_email_for_purchase setting. Use after isAuthenticated.
+export const requireVerifiedEmail: RequestHandler = async (req, res, next) => {
+  try {
+    const required = await storage.getSystemSetting("require_verified_email_for_purchase");
+    if (required !== "true") return next();
+
+    const user = await storage.getUser((req as any).user.id);
+    if (!user?.emailVerifiedAt) {
+      return res.status(403).json({ message: "Vui lòng xác minh email trước khi mua hàng", code: "EMAIL_NOT_VERIFIED" });
+    }
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
+
+// Step-up check for sensitive actions: the request must carry a fresh 2FA code in
+// `twoFactorCode` (body) or the X-2FA-Code header. Use after isAuthenticated.
+export const requireTwoFactorCode: RequestHandler = async (req, res, next) => {
+  try {
+    const userId = (req as any).user.id;
+    const twoFactor = await storage.getTwoFactor(userId);
+    if (!twoFactor?.enabledAt) {
+      return res.status(403).json({
+        message: "Vui lòng bật xác thực hai lớp (2FA) để thực hiện thao tác này",
+        code: "TWO_FACTOR_SETUP_REQUIRED",
+      });
+    }
+
+    const code = req.body?.twoFactorCode ?? req.get("X-2FA-Code");
+    if (!code) {
+      return res.status(403).json({ message: "Vui lòng nhập mã xác thực hai lớp", code: "TWO_FACTOR_REQUIRED" });
+    }
+    if (!(await verifySecondFactor(userId, String(code)))) {
+      return res.status(403).json({ message: "Mã xác thực hai lớp không đúng", code: "TWO_FACTOR_INVALID" });
+    }
+    next();
+  } catch (error: any) {
+    res.status(500).json({ message: error.message });
+  }
+};
@@ -0,0 +1,46 @@
+import crypto from "crypto";
+
+// What we remember about the device behind a session; stored inside the session itself
+export interface SessionDevice {
+  userAgent: string;
+  label: string;
+  ip: string | null;
+  loginAt: string;
+  lastActiveAt: string;
+}
+
+const BROWSERS: [RegExp, string][] = [
+  [/Edg\//, "Edge"],
+  [/OPR\/|Opera/, "Opera"],
+  [/CocCoc/, "Cốc Cốc"],
+  [/SamsungBrowser/, "Samsung Internet"],
+  [/Firefox\//, "Firefox"],
+  [/Chrome\//, "Chrome"],
+  [/Safari\//, "Safari"],
+];
+
+const SYSTEMS: [RegExp, string][] = [
+  [/Windows/, "Windows"],
+  [/Android/, "Android"],
+  [/iPhone|iPad|iPod/, "iOS"],
+  [/Mac OS X|Macintosh/, "macOS"],
+  [/Linux/, "Linux"],
+];
+
+// "Chrome trên Windows" - good enough to recognise a device in a list, not a full UA parser
+export function describeUserAgent(userAgent: string): string {
+  const browser = BROWSERS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  const system = SYSTEMS.find(([pattern]) => pattern.test(userAgent))?.[1];
+  if (browser && system) return `${browser} trên ${system}`;
+  return browser || system || "Thiết bị không xác định";
+}
+
+// Devices are told apart by browser + OS, so browser updates don't count as a new device
+export function deviceFingerprint(userAgent: string): string {
+  return crypto.createHash("sha256").update(describeUserAgent(userAgent)).digest("hex");
+}
+
+// Session ids are bearer credentials; clients only ever see this derived id
+export function publicSessionId(sid: string): string {
+  return crypto.createHash("sha256").update(sid).digest("hex").slice(0, 32);
+}
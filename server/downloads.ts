@@ -0,0 +1,63 @@
+import crypto from "crypto";
+import path from "path";
+
+// What a signed download URL entitles its holder to
+export interface DownloadGrant {
+  orderId: string;
+  fileId: string;
+  userId: string;
+  expiresAt: Date;
+}
+
+function signingKey(): string {
+  const key = process.env.DOWNLOAD_SECRET || process.env.SESSION_SECRET;
+  if (!key) {
+    throw new Error("DOWNLOAD_SECRET hoặc SESSION_SECRET chưa được cấu hình");
+  }
+  return key;
+}
+
+function sign(payload: string): string {
+  return crypto.createHmac("sha256", signingKey()).update(payload).digest("base64url");
+}
+
+/**
+ * Short-lived token for one file of one order: base64url(JSON) + "." + HMAC. The token is
+ * the whole credential, so download managers can fetch it without the session cookie.
+ */
+export function signDownloadToken(grant: Omit<DownloadGrant, "expiresAt">, ttlSeconds = 5 * 60): { token: string; expiresAt: Date } {
+  const expiresAt = new Date(Date.now() + ttlSeconds * 1000);
+  const payload = Buffer.from(
+    JSON.stringify({ o: grant.orderId, f: grant.fileId, u: grant.userId, e: expiresAt.getTime() })
+  ).toString("base64url");
+  return { token: `${payload}.${sign(payload)}`, expiresAt };
+}
+
+// The grant inside a token, or null if it was tampered with or has expired
+export function verifyDownloadToken(token: string): DownloadGrant | null {
+  const [payload, signature] = token.split(".");
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) {
+    return null;
+  }
+
+  try {
+    const data = JSON.parse(Buffer.from(payload, "base64url").toString("utf-8"));
+    if (typeof data.e !== "number" || data.e < Date.now()) return null;
+    return { orderId: data.o, fileId: data.f, userId: data.u, expiresAt: new Date(data.e) };
+  } catch {
+    return null;
+  }
+}
+
+// files.filePath is stored as "/uploads/software/<name>"; map it into the upload directory
+// and refuse anything that would escape it
+export function resolveUploadPath(uploadDir: string, filePath: string): string | null {
+  const relative = filePath.replace(/^\/?uploads\//, "");
+  const root = path.resolve(uploadDir);
+  const absolute = path.resolve(root, relative);
+  return absolute.startsWith(root + path.sep) ? absolute : null;
+}
@@ -0,0 +1,307 @@
+import nodemailer, { type Transporter } from "nodemailer";
+import { storage } from "./storage";
+import type { Notification, User } from "@shared/schema";
+
+type NotificationKind = Notification["type"];
+
+// SMTP comes from system settings (smtp_host, smtp_port, smtp_secure, smtp_user,
+// smtp_password, smtp_from). For a local sink such as MailHog: smtp_host=localhost, smtp_port=1025.
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export async function getSmtpConfig(): Promise<SmtpConfig | null> {
+  const settings = await storage.getAllSystemSettings();
+  if (!settings.smtp_host) return null;
+  return {
+    host: settings.smtp_host,
+    port: parseInt(settings.smtp_port || "587", 10),
+    secure: settings.smtp_secure === "true",
+    user: settings.smtp_user || undefined,
+    password: settings.smtp_password || undefined,
+    from: settings.smtp_from || settings.smtp_user || "no-reply@localhost",
+  };
+}
+
+let cachedTransport: { key: string; transport: Transporter } | null = null;
+
+function getTransport(config: SmtpConfig): Transporter {
+  const key = JSON.stringify(config);
+  if (cachedTransport?.key !== key) {
+    cachedTransport = {
+      key,
+      transport: nodemailer.createTransport({
+        host: config.host,
+        port: config.port,
+        secure: config.secure,
+        auth: config.user ? { user: config.user, pass: config.password } : undefined,
+      }),
+    };
+  }
+  return cachedTransport.transport;
+}
+
+// ---------- Templates ----------
+
+interface EmailTemplate {
+  subjectPrefix: string;
+  intro: string;
+  action: string;
+}
+
+const TEMPLATES: Record<NotificationKind, EmailTemplate> = {
+  new_order: { subjectPrefix: "Đơn hàng mới", intro: "Bạn vừa có đơn hàng mới.", action: "Xem đơn hàng" },
+  order_paid: { subjectPrefix: "Thanh toán thành công", intro: "Đơn hàng của bạn đã được thanh toán.", action: "Xem đơn hàng" },
+  new_message: { subjectPrefix: "Tin nhắn mới", intro: "Bạn có tin nhắn mới.", action: "Đọc tin nhắn" },
+  kyc_update: { subjectPrefix: "Cập nhật KYC", intro: "Hồ sơ xác minh danh tính của bạn đã được cập nhật.", action: "Xem chi tiết" },
+  withdrawal_update: { subjectPrefix: "Cập nhật rút tiền", intro: "Yêu cầu rút tiền của bạn đã được cập nhật.", action: "Xem ví" },
+  deposit_update: { subjectPrefix: "Cập nhật nạp tiền", intro: "Yêu cầu nạp tiền của bạn đã được cập nhật.", action: "Xem ví" },
+  product_approved: { subjectPrefix: "Sản phẩm", intro: "Trạng thái sản phẩm của bạn đã thay đổi.", action: "Xem sản phẩm" },
+  system: { subjectPrefix: "Thông báo", intro: "Bạn có thông báo mới từ hệ thống.", action: "Xem chi tiết" },
+  referral_bonus: { subjectPrefix: "Hoa hồng giới thiệu", intro: "Bạn vừa nhận được hoa hồng giới thiệu.", action: "Xem ví" },
+  flash_sale: { subjectPrefix: "Flash sale", intro: "Có chương trình flash sale bạn có thể quan tâm.", action: "Xem ngay" },
+  wishlist_price_drop: { subjectPrefix: "Giảm giá", intro: "Sản phẩm trong danh sách yêu thích của bạn đã giảm giá.", action: "Xem sản phẩm" },
+  wishlist_back_in_stock: { subjectPrefix: "Có hàng trở lại", intro: "Sản phẩm trong danh sách yêu thích của bạn đã có hàng.", action: "Xem sản phẩm" },
+  warranty_claim: { subjectPrefix: "Bảo hành", intro: "Yêu cầu bảo hành của bạn đã được cập nhật.", action: "Xem chi tiết" },
+  dispute_update: { subjectPrefix: "Khiếu nại", intro: "Khiếu nại của bạn đã được cập nhật.", action: "Xem chi tiết" },
+  bundle_discount: { subjectPrefix: "Ưu đãi combo", intro: "Có ưu đãi combo mới.", action: "Xem ngay" },
+  software_update: { subjectPrefix: "Bản cập nhật mới", intro: "Phần mềm bạn đã mua có phiên bản mới.", action: "Tải xuống" },
+  new_device_login: { subjectPrefix: "Cảnh báo bảo mật", intro: "Tài khoản của bạn vừa được đăng nhập từ một thiết bị mới.", action: "Quản lý phiên đăng nhập" },
+};
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+async function siteUrl(): Promise<string> {
+  const configured = (await storage.getSystemSetting("site_url")) || process.env.APP_URL || "";
+  return configured.replace(/\/+$/, "");
+}
+
+const NOTIFICATION_FOOTER = "Bạn nhận được email này vì đã bật thông báo qua email. Có thể tắt trong phần cài đặt thông báo.";
+
+function layout(heading: string, bodyHtml: string, footer = NOTIFICATION_FOOTER): string {
+  return `<!DOCTYPE html>
+<html lang="vi">
+<body style="margin:0;padding:24px;background:#f4f4f5;font-family:Arial,Helvetica,sans-serif;color:#18181b">
+  <div style="max-width:560px;margin:0 auto;background:#ffffff;border-radius:8px;padding:24px">
+    <h2 style="margin:0 0 16px;font-size:20px">${escapeHtml(heading)}</h2>
+    ${bodyHtml}
+    <p style="margin:24px 0 0;font-size:12px;color:#71717a">${escapeHtml(footer)}</p>
+  </div>
+</body>
+</html>`;
+}
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+  text: string;
+}
+
+export async function renderNotificationEmail(
+  type: NotificationKind,
+  recipientName: string,
+  title: string,
+  message: string,
+  link?: string
+): Promise<RenderedEmail> {
+  const template = TEMPLATES[type];
+  const url = link ? `${await siteUrl()}${link}` : null;
+  const greeting = `Xin chào ${recipientName},`;
+
+  const html = layout(title, `
+    <p style="margin:0 0 12px">${escapeHtml(greeting)}</p>
+    <p style="margin:0 0 12px">${escapeHtml(template.intro)}</p>
+    <p style="margin:0 0 16px;white-space:pre-line">${escapeHtml(message)}</p>
+    ${url ? `<a href="${escapeHtml(url)}" style="display:inline-block;background:#2563eb;color:#ffffff;text-decoration:none;padding:10px 16px;border-radius:6px">${escapeHtml(template.action)}</a>` : ""}`);
+
+  const text = [greeting, "", template.intro, "", title, message, url ? `\n${template.action}: ${url}` : ""].join("\n");
+
+  return { subject: `[${template.subjectPrefix}] ${title}`, html, text };
+}
+
+export async function renderDigestEmail(recipientName: string, items: Notification[]): Promise<RenderedEmail> {
+  const base = await siteUrl();
+  const greeting = `Xin chào ${recipientName},`;
+  const intro = `Bạn có ${items.length} thông báo trong 24 giờ qua:`;
+
+  const rows = items.map((item) => {
+    const url = item.link ? `${base}${item.link}` : null;
+    const titleHtml = url
+      ? `<a href="${escapeHtml(url)}" style="color:#2563eb">${escapeHtml(item.title)}</a>`
+      : escapeHtml(item.title);
+    return `<li style="margin:0 0 12px"><strong>${titleHtml}</strong><br>${escapeHtml(item.message)}</li>`;
+  });
+  const html = layout("Tổng hợp thông báo hôm nay", `
+    <p style="margin:0 0 12px">${escapeHtml(greeting)}</p>
+    <p style="margin:0 0 12px">${escapeHtml(intro)}</p>
+    <ul style="padding-left:20px;margin:0">${rows.join("")}</ul>`);
+
+  const text = [
+    greeting,
+    "",
+    intro,
+    "",
+    ...items.map((item) => `- ${item.title}: ${item.message}${item.link ? ` (${base}${item.link})` : ""}`),
+  ].join("\n");
+
+  return { subject: `Tổng hợp thông báo (${items.length})`, html, text };
+}
+
+function displayName(user: { firstName: string | null; email: string | null }): string {
+  return user.firstName || user.email || "bạn";
+}
+
+// Account emails (password reset, email verification) are sent regardless of notification settings
+export type AccountEmailKind = "password_reset" | "email_verification";
+
+const ACCOUNT_TEMPLATES: Record<AccountEmailKind, { subject: string; intro: string; action: string; path: string; validity: string }> = {
+  password_reset: {
+    subject: "Đặt lại mật khẩu",
+    intro: "Chúng tôi nhận được yêu cầu đặt lại mật khẩu cho tài khoản của bạn.",
+    action: "Đặt lại mật khẩu",
+    path: "/reset-password",
+    validity: "Liên kết có hiệu lực trong 1 giờ và chỉ dùng được một lần.",
+  },
+  email_verification: {
+    subject: "Xác minh địa chỉ email",
+    intro: "Vui lòng xác minh địa chỉ email của bạn.",
+    action: "Xác minh email",
+    path: "/verify-email",
+    validity: "Liên kết có hiệu lực trong 24 giờ và chỉ dùng được một lần.",
+  },
+};
+
+export async function renderAccountEmail(kind: AccountEmailKind, recipientName: string, token: string): Promise<RenderedEmail> {
+  const template = ACCOUNT_TEMPLATES[kind];
+  const url = `${await siteUrl()}${template.path}?token=${encodeURIComponent(token)}`;
+  const greeting = `Xin chào ${recipientName},`;
+  const footer = "Nếu bạn không yêu cầu thao tác này, hãy bỏ qua email này.";
+
+  const html = layout(template.subject, `
+    <p style="margin:0 0 12px">${escapeHtml(greeting)}</p>
+    <p style="margin:0 0 12px">${escapeHtml(template.intro)}</p>
+    <a href="${escapeHtml(url)}" style="display:inline-block;background:#2563eb;color:#ffffff;text-decoration:none;padding:10px 16px;border-radius:6px">${escapeHtml(template.action)}</a>
+    <p style="margin:16px 0 0;font-size:13px;color:#52525b">${escapeHtml(template.validity)}</p>`, footer);
+
+  const text = [greeting, "", template.intro, "", `${template.action}: ${url}`, "", template.validity, footer].join("\n");
+
+  return { subject: template.subject, html, text };
+}
+
+// ---------- Queueing ----------
+
+export async function queueAccountEmail(user: User, kind: AccountEmailKind, token: string): Promise<void> {
+  if (!user.email) return;
+  const email = await renderAccountEmail(kind, displayName(user), token);
+  await storage.queueEmail({ userId: user.id, toAddress: user.email, kind, ...email });
+}
+
+// Queues the email twin of an in-app notification, unless the user has email off or
+// gets the daily digest instead
+export async function queueNotificationEmail(
+  userId: string,
+  type: NotificationKind,
+  title: string,
+  message: string,
+  link?: string
+): Promise<void> {
+  const settings = await storage.getNotificationSettings(userId);
+  if (!settings?.emailNotifications || settings.emailDigest) return;
+
+  const user = await storage.getUser(userId);
+  if (!user?.email) return;
+
+  const email = await renderNotificationEmail(type, displayName(user), title, message, link);
+  await storage.queueEmail({ userId, toAddress: user.email, kind: type, ...email });
+}
+
+// ---------- Delivery ----------
+
+const MAX_ATTEMPTS = 6;
+
+// 1, 2, 4, 8, 16 minutes between attempts, then give up
+function retryDelayMs(attempts: number): number {
+  return Math.pow(2, attempts - 1) * 60 * 1000;
+}
+
+export async function processEmailOutbox(batchSize = 20): Promise<{ sent: number; retried: number; failed: number; skipped?: string }> {
+  const config = await getSmtpConfig();
+  if (!config) {
+    // Leave the queue alone until SMTP is configured
+    return { sent: 0, retried: 0, failed: 0, skipped: "smtp_not_configured" };
+  }
+
+  const transport = getTransport(config);
+  const emails = await storage.claimDueEmails(batchSize);
+  let sent = 0;
+  let retried = 0;
+  let failed = 0;
+
+  for (const email of emails) {
+    try {
+      await transport.sendMail({
+        from: config.from,
+        to: email.toAddress,
+        subject: email.subject,
+        html: email.html,
+        text: email.text,
+      });
+      await storage.markEmailSent(email.id);
+      sent++;
+    } catch (error: any) {
+      const giveUp = email.attempts >= MAX_ATTEMPTS;
+      await storage.markEmailFailed(
+        email.id,
+        error?.message ?? String(error),
+        giveUp ? null : new Date(Date.now() + retryDelayMs(email.attempts))
+      );
+      if (giveUp) failed++;
+      else retried++;
+    }
+  }
+  return { sent, retried, failed };
+}
+
+// One summary email per digest user per day, covering what they were notified of since
+// the previous digest
+export async function queueDailyDigests(): Promise<{ queued: number }> {
+  const recipients = await storage.getDigestRecipients();
+  let queued = 0;
+
+  for (const { settings, user } of recipients) {
+    const now = new Date();
+    const since = settings.lastDigestSentAt ?? new Date(now.getTime() - 24 * 60 * 60 * 1000);
+    const items = await storage.getNotificationsSince(user.id, since);
+
+    if (items.length > 0 && user.email) {
+      const email = await renderDigestEmail(displayName(user), items);
+      await storage.queueEmail({ userId: user.id, toAddress: user.email, kind: "digest", ...email });
+      queued++;
+    }
+    await storage.updateNotificationSettings(user.id, { lastDigestSentAt: now });
+  }
+  return { queued };
+}
+
+export async function queueTestEmail(toAddress: string): Promise<void> {
+  const html = layout("Email thử nghiệm", `<p style="margin:0">Cấu hình SMTP hoạt động bình thường.</p>`);
+  await storage.queueEmail({
+    toAddress,
+    subject: "Email thử nghiệm",
+    html,
+    text: "Cấu hình SMTP hoạt động bình thường.",
+    kind: "test",
+  });
+}
@@ -0,0 +1,220 @@
+import { storage } from "./storage";
+import { decryptContent } from "./itemCrypto";
+import { ACCOUNT_FORMATS, getAccountFormat, parseAccountLine, type AccountFields, type AccountFormat } from "./accountParser";
+import type { ItemCheckRun, Product } from "@shared/schema";
+
+/**
+ * Account health checkers. A checker takes a batch of unsold items (decrypted) and says which
+ * accounts still work. Which checker a platform uses comes from the `item_checkers` system
+ * setting, e.g. {"facebook": "http", "*": "format"}; platforms without one are not checked.
+ *
+ * Built in:
+ *   format - re-validates the line against its account format; no network, never says "live"
+ *            for an account it can't parse. Useful as a floor and in development.
+ *   stub   - deterministic, for tests: accounts listed in ITEM_CHECKER_STUB_DEAD are dead,
+ *            everything else is live.
+ *   http   - POSTs the batch to ITEM_CHECKER_URL, an external checking service.
+ */
+
+export type ItemCheckVerdict = "live" | "dead" | "unknown";
+
+export interface ItemCheckResult {
+  verdict: ItemCheckVerdict;
+  reason?: string;
+}
+
+export interface CheckableItem {
+  id: string;
+  content: string;
+  format: AccountFormat;
+  fields: AccountFields;
+}
+
+export interface ItemChecker {
+  id: string;
+  label: string;
+  batchSize: number;
+  // Items missing from the result count as "unknown" and keep their previous state
+  check(platform: string, items: CheckableItem[]): Promise<Map<string, ItemCheckResult>>;
+}
+
+const checkers = new Map<string, ItemChecker>();
+
+export function registerItemChecker(checker: ItemChecker): void {
+  checkers.set(checker.id, checker);
+}
+
+export function listItemCheckers(): { id: string; label: string }[] {
+  return Array.from(checkers.values()).map(({ id, label }) => ({ id, label }));
+}
+
+async function checkerConfig(): Promise<Record<string, string>> {
+  try {
+    const raw = await storage.getSystemSetting("item_checkers");
+    if (raw) return JSON.parse(raw);
+  } catch (error) {
+    console.error("Invalid item_checkers setting:", error);
+  }
+  return {};
+}
+
+// Checker configured for a platform, or null if its accounts can't be checked
+export async function resolveItemChecker(platform?: string | null): Promise<ItemChecker | null> {
+  const config = await checkerConfig();
+  const id = config[(platform || "").toLowerCase()] ?? config["*"];
+  return (id && checkers.get(id)) || null;
+}
+
+// Platforms that have a checker, or null when a "*" checker covers every platform
+export async function checkablePlatforms(): Promise<string[] | null> {
+  const config = await checkerConfig();
+  if (config["*"] && checkers.has(config["*"])) return null;
+  return Object.keys(config).filter((platform) => checkers.has(config[platform])).map((platform) => platform.toLowerCase());
+}
+
+export const formatChecker: ItemChecker = {
+  id: "format",
+  label: "Kiểm tra định dạng (không kết nối nền tảng)",
+  batchSize: 500,
+  async check(_platform, items) {
+    const results = new Map<string, ItemCheckResult>();
+    for (const item of items) {
+      const parsed = parseAccountLine(item.format, item.content);
+      results.set(item.id, "error" in parsed
+        ? { verdict: "dead", reason: parsed.error }
+        : { verdict: "live" });
+    }
+    return results;
+  },
+};
+
+export function createStubChecker(deadIdentities: Iterable<string>): ItemChecker {
+  const dead = new Set(deadIdentities);
+  return {
+    id: "stub",
+    label: "Giả lập (dùng để kiểm thử)",
+    batchSize: 100,
+    async check(_platform, items) {
+      return new Map(items.map((item) => {
+        const identity = item.content.split("|")[0].trim();
+        return [item.id, dead.has(identity) ? { verdict: "dead", reason: "Giả lập: tài khoản die" } : { verdict: "live" }];
+      }));
+    },
+  };
+}
+
+/**
+ * Request:  {"platform": "facebook", "accounts": [{"id": "...", "content": "uid|pass|...", "fields": {...}}]}
+ * Response: {"results": [{"id": "...", "status": "live" | "dead" | "unknown", "reason": "..."}]}
+ * Sent with "Authorization: Bearer <ITEM_CHECKER_TOKEN>" when the token is set.
+ */
+export const httpChecker: ItemChecker = {
+  id: "http",
+  label: "Dịch vụ kiểm tra bên ngoài (ITEM_CHECKER_URL)",
+  batchSize: 50,
+  async check(platform, items) {
+    const url = process.env.ITEM_CHECKER_URL;
+    if (!url) {
+      throw new Error("ITEM_CHECKER_URL chưa được cấu hình");
+    }
+
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(process.env.ITEM_CHECKER_TOKEN ? { Authorization: `Bearer ${process.env.ITEM_CHECKER_TOKEN}` } : {}),
+      },
+      body: JSON.stringify({
+        platform,
+        accounts: items.map((item) => ({ id: item.id, content: item.content, fields: item.fields })),
+      }),
+      signal: AbortSignal.timeout(60 * 1000),
+    });
+    if (!response.ok) {
+      throw new Error(`Dịch vụ kiểm tra trả về lỗi ${response.status}`);
+    }
+
+    const body = (await response.json()) as { results?: { id: string; status: string; reason?: string }[] };
+    const results = new Map<string, ItemCheckResult>();
+    for (const result of body.results ?? []) {
+      if (result.status === "live" || result.status === "dead" || result.status === "unknown") {
+        results.set(result.id, { verdict: result.status, reason: result.reason?.slice(0, 500) });
+      }
+    }
+    return results;
+  },
+};
+
+registerItemChecker(formatChecker);
+registerItemChecker(httpChecker);
+registerItemChecker(
+  createStubChecker((process.env.ITEM_CHECKER_STUB_DEAD || "").split(",").map((part) => part.trim()).filter(Boolean))
+);
+
+export interface ItemCheckOutcome {
+  run: ItemCheckRun;
+  product?: Product;
+}
+
+/**
+ * Works off one claimed run: checks the product's unsold items batch by batch, marks them
+ * live/dead as results come in, then refreshes stock and the product's live rate. A checker
+ * error fails the run but keeps the results of the batches before it.
+ */
+export async function processItemCheckRun(run: ItemCheckRun): Promise<ItemCheckOutcome> {
+  const product = await storage.getProduct(run.productId);
+  const checker = product ? await resolveItemChecker(product.platform) : null;
+  if (!product || !checker) {
+    return {
+      run: await storage.finishItemCheckRun(run.id, {
+        status: "failed",
+        error: "Chưa có công cụ kiểm tra cho nền tảng này",
+      }),
+    };
+  }
+
+  const counts = { checkedCount: 0, liveCount: 0, deadCount: 0, unknownCount: 0 };
+  let error: string | null = null;
+  let afterId: string | null = null;
+  try {
+    for (;;) {
+      const items = await storage.getItemsForHealthCheck(product.id, afterId, checker.batchSize);
+      if (items.length === 0) break;
+      afterId = items[items.length - 1].id;
+
+      const batch: CheckableItem[] = items.map((item) => ({
+        id: item.id,
+        content: decryptContent(item.content),
+        format: getAccountFormat(item.accountFormat) ?? ACCOUNT_FORMATS.raw,
+        fields: (item.accountFields as AccountFields | null) ?? {},
+      }));
+      const results = await checker.check(product.platform || "", batch);
+
+      const decided: { id: string; verdict: "live" | "dead"; reason?: string }[] = [];
+      for (const item of batch) {
+        const result = results.get(item.id);
+        if (result && result.verdict !== "unknown") {
+          decided.push({ id: item.id, verdict: result.verdict, reason: result.reason });
+        }
+      }
+      await storage.applyItemCheckResults(decided);
+
+      counts.checkedCount += batch.length;
+      counts.liveCount += decided.filter((result) => result.verdict === "live").length;
+      counts.deadCount += decided.filter((result) => result.verdict === "dead").length;
+      counts.unknownCount += batch.length - decided.length;
+    }
+  } catch (err: any) {
+    console.error(`Item check ${run.id} failed:`, err);
+    error = err?.message ?? String(err);
+  }
+
+  const updated = await storage.refreshProductLiveRate(product.id);
+  const finished = await storage.finishItemCheckRun(run.id, {
+    ...counts,
+    checker: checker.id,
+    status: error ? "failed" : "completed",
+    error,
+  });
+  return { run: finished, product: updated };
+}
@@ -0,0 +1,114 @@
+import crypto from "crypto";
+
+/**
+ * Envelope encryption for account credentials (product_items.content, orders.delivered_content).
+ *
+ * Every value gets its own random data key; the data key is wrapped with a master key from
+ * ITEM_ENCRYPTION_KEYS ("<id>:<base64 32 bytes>,<id>:<base64>", first one is current, the rest
+ * are kept for decrypting older rows). Stored form:
+ *
+ *   enc:v1:<key id>:<base64url(iv | wrapped data key | tag)>:<base64url(iv | ciphertext | tag)>
+ *
+ * Values without the prefix are legacy plaintext and are returned as-is; `npm run
+ * items:rotate-keys` encrypts them and moves older rows to the current key.
+ */
+
+const PREFIX = "enc:v1:";
+const IV_BYTES = 12;
+const TAG_BYTES = 16;
+const KEY_BYTES = 32;
+
+export const REDACTED_CONTENT = "[Nội dung đã được mã hóa]";
+
+interface MasterKeys {
+  currentId: string | null;
+  keys: Map<string, Buffer>;
+}
+
+let cachedKeys: MasterKeys | null = null;
+let warnedPlaintext = false;
+
+function masterKeys(): MasterKeys {
+  if (cachedKeys) return cachedKeys;
+
+  const keys = new Map<string, Buffer>();
+  let currentId: string | null = null;
+  for (const entry of (process.env.ITEM_ENCRYPTION_KEYS || "").split(",").map((part) => part.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(":");
+    const id = entry.slice(0, separator);
+    const key = Buffer.from(entry.slice(separator + 1), "base64");
+    if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(id) || key.length !== KEY_BYTES) {
+      throw new Error("ITEM_ENCRYPTION_KEYS không hợp lệ: mỗi khóa phải có dạng <id>:<base64 32 byte>");
+    }
+    keys.set(id, key);
+    currentId ??= id;
+  }
+
+  cachedKeys = { currentId, keys };
+  return cachedKeys;
+}
+
+export function currentKeyId(): string | null {
+  return masterKeys().currentId;
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad: string): Buffer {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv("aes-256-gcm", key, iv);
+  cipher.setAAD(Buffer.from(aad));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, ciphertext, cipher.getAuthTag()]);
+}
+
+function open(key: Buffer, sealed: Buffer, aad: string): Buffer {
+  const iv = sealed.subarray(0, IV_BYTES);
+  const tag = sealed.subarray(sealed.length - TAG_BYTES);
+  const decipher = crypto.createDecipheriv("aes-256-gcm", key, iv);
+  decipher.setAAD(Buffer.from(aad));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(sealed.subarray(IV_BYTES, sealed.length - TAG_BYTES)), decipher.final()]);
+}
+
+export function isEncrypted(value: string): boolean {
+  return value.startsWith(PREFIX);
+}
+
+// True when the value is already encrypted under the current master key
+export function isCurrentEncryption(value: string): boolean {
+  const id = currentKeyId();
+  return id !== null && value.startsWith(`${PREFIX}${id}:`);
+}
+
+export function encryptContent(plaintext: string): string {
+  const { currentId, keys } = masterKeys();
+  if (!currentId) {
+    if (process.env.NODE_ENV === "production") {
+      throw new Error("ITEM_ENCRYPTION_KEYS chưa được cấu hình");
+    }
+    if (!warnedPlaintext) {
+      console.warn("ITEM_ENCRYPTION_KEYS is not set - account credentials are stored in plaintext");
+      warnedPlaintext = true;
+    }
+    return plaintext;
+  }
+
+  const header = `${PREFIX}${currentId}`;
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+  const wrapped = seal(keys.get(currentId)!, dataKey, header);
+  const payload = seal(dataKey, Buffer.from(plaintext, "utf-8"), header);
+  return `${header}:${wrapped.toString("base64url")}:${payload.toString("base64url")}`;
+}
+
+export function decryptContent(value: string): string {
+  if (!isEncrypted(value)) return value;
+
+  const [keyId, wrapped, payload] = value.slice(PREFIX.length).split(":");
+  const masterKey = masterKeys().keys.get(keyId);
+  if (!masterKey || !wrapped || !payload) {
+    throw new Error(`Không thể giải mã nội dung: không có khóa "${keyId}"`);
+  }
+
+  const header = `${PREFIX}${keyId}`;
+  const dataKey = open(masterKey, Buffer.from(wrapped, "base64url"), header);
+  return open(dataKey, Buffer.from(payload, "base64url"), header).toString("utf-8");
+}
@@ -0,0 +1,159 @@
+import os from "os";
+import crypto from "crypto";
+import { db } from "./db";
+import { eq, and, or, isNull, lt, lte, sql, asc } from "drizzle-orm";
+import { jobs, type Job } from "@shared/schema";
+
+export type JobResult = Record<string, unknown>;
+export type JobHandler = () => Promise<JobResult | void>;
+
+interface JobDefinition {
+  name: string;
+  intervalSeconds: number;
+  leaseSeconds: number;
+  handler: JobHandler;
+}
+
+export interface JobRun {
+  name: string;
+  status: "succeeded" | "failed";
+  result: JobResult | null;
+  error: string | null;
+  durationMs: number;
+}
+
+export class JobError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "JobError";
+  }
+}
+
+/**
+ * Runs registered jobs on their schedule. Every instance polls the `jobs` table, but a run
+ * only starts after a conditional UPDATE takes the row's lease (locked_until in the past),
+ * so the same job never executes on two instances at once. A crashed instance's lease
+ * simply expires. Times are compared against the database clock, not the local one.
+ */
+export class JobRunner {
+  private definitions = new Map<string, JobDefinition>();
+  private timer: NodeJS.Timeout | null = null;
+  private readonly instanceId = `${os.hostname()}:${process.pid}:${crypto.randomBytes(4).toString("hex")}`;
+
+  register(name: string, intervalSeconds: number, handler: JobHandler, leaseSeconds = 15 * 60): void {
+    this.definitions.set(name, { name, intervalSeconds, leaseSeconds, handler });
+  }
+
+  async start(pollSeconds = 30): Promise<void> {
+    if (this.timer) return;
+
+    // New jobs get their row (first run shortly after boot); existing rows keep the
+    // schedule and enabled flag an admin may have changed
+    for (const job of Array.from(this.definitions.values())) {
+      await db
+        .insert(jobs)
+        .values({ name: job.name, intervalSeconds: job.intervalSeconds, nextRunAt: sql`now() + interval '10 seconds'` })
+        .onConflictDoNothing();
+    }
+
+    this.timer = setInterval(() => {
+      this.tick().catch((err) => console.error("Job runner tick failed:", err));
+    }, pollSeconds * 1000);
+  }
+
+  stop(): void {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  async list(): Promise<Job[]> {
+    return db.select().from(jobs).orderBy(asc(jobs.name));
+  }
+
+  async update(name: string, data: { intervalSeconds?: number; isEnabled?: boolean }): Promise<Job> {
+    const [job] = await db.update(jobs).set(data).where(eq(jobs.name, name)).returning();
+    if (!job) {
+      throw new JobError("Không tìm thấy tác vụ", 404);
+    }
+    return job;
+  }
+
+  // Runs every job that is due. Jobs run one after another so a slow one can't pile up
+  async tick(): Promise<JobRun[]> {
+    const due = await db
+      .select({ name: jobs.name })
+      .from(jobs)
+      .where(
+        and(
+          eq(jobs.isEnabled, true),
+          lte(jobs.nextRunAt, sql`now()`),
+          or(isNull(jobs.lockedUntil), lt(jobs.lockedUntil, sql`now()`))
+        )
+      );
+
+    const runs: JobRun[] = [];
+    for (const { name } of due) {
+      const run = await this.run(name);
+      if (run) runs.push(run);
+    }
+    return runs;
+  }
+
+  /**
+   * Runs one job if its lease can be taken. Returns null when the job is not due or is
+   * already running somewhere; `force` skips the schedule (admin "run now") but never the lease.
+   */
+  async run(name: string, force = false): Promise<JobRun | null> {
+    const definition = this.definitions.get(name);
+    if (!definition) {
+      throw new JobError("Không tìm thấy tác vụ", 404);
+    }
+
+    const [claimed] = await db
+      .update(jobs)
+      .set({
+        lockedBy: this.instanceId,
+        lockedUntil: sql`now() + make_interval(secs => ${definition.leaseSeconds})`,
+        lastStartedAt: sql`now()`,
+        lastStatus: "running",
+      })
+      .where(
+        and(
+          eq(jobs.name, name),
+          or(isNull(jobs.lockedUntil), lt(jobs.lockedUntil, sql`now()`)),
+          force ? undefined : and(eq(jobs.isEnabled, true), lte(jobs.nextRunAt, sql`now()`))
+        )
+      )
+      .returning();
+    if (!claimed) return null;
+
+    const startedAt = Date.now();
+    let run: JobRun;
+    try {
+      const result = await definition.handler();
+      run = { name, status: "succeeded", result: result ?? null, error: null, durationMs: Date.now() - startedAt };
+    } catch (err: any) {
+      console.error(`Job ${name} failed:`, err);
+      run = { name, status: "failed", result: null, error: err?.message ?? String(err), durationMs: Date.now() - startedAt };
+    }
+
+    // Only release our own lease; if it ran out and another instance took over, leave it alone
+    await db
+      .update(jobs)
+      .set({
+        lockedBy: null,
+        lockedUntil: null,
+        lastFinishedAt: sql`now()`,
+        lastStatus: run.status,
+        lastResult: run.result,
+        lastError: run.error,
+        lastDurationMs: run.durationMs,
+        nextRunAt: sql`now() + make_interval(secs => ${claimed.intervalSeconds})`,
+      })
+      .where(and(eq(jobs.name, name), eq(jobs.lockedBy, this.instanceId)));
+
+    return run;
+  }
+}
+
+export const jobRunner = new JobRunner();
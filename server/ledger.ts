@@ -0,0 +1,116 @@
+import { db } from "./db";
+import { eq, and, sql } from "drizzle-orm";
+import { users, walletTransactions, type WalletTransaction } from "@shared/schema";
+
+// Handle passed to the db.transaction() callback
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export class LedgerError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "LedgerError";
+  }
+}
+
+export class InsufficientBalanceError extends LedgerError {
+  constructor(message = "Số dư ví không đủ. Vui lòng nạp thêm tiền để mua hàng.") {
+    super(message, 400);
+    this.name = "InsufficientBalanceError";
+  }
+}
+
+export interface LedgerEntry {
+  userId: string;
+  amount: string | number;
+  reason: string;
+  relatedOrderId?: string | null;
+}
+
+function normalizeAmount(amount: string | number): string {
+  const value = Number(amount);
+  if (!Number.isFinite(value) || value <= 0) {
+    throw new LedgerError("Số tiền không hợp lệ");
+  }
+  return value.toFixed(2);
+}
+
+/**
+ * Every change to users.walletBalance goes through here. The balance update and its
+ * walletTransactions row are written in the same DB transaction, the UPDATE holds the
+ * user's row lock until commit, and a debit that would go below zero is rejected.
+ * Pass `tx` to join a transaction the caller already opened (e.g. order checkout).
+ */
+export class WalletLedger {
+  async credit(entry: LedgerEntry, tx?: DbTransaction): Promise<WalletTransaction> {
+    return this.post("credit", entry, tx);
+  }
+
+  async debit(entry: LedgerEntry, tx?: DbTransaction): Promise<WalletTransaction> {
+    return this.post("debit", entry, tx);
+  }
+
+  // Admin correction: moves the balance to an exact value, recording the difference
+  async adjustTo(userId: string, target: string | number, reason: string, tx?: DbTransaction): Promise<WalletTransaction | undefined> {
+    const targetValue = Number(target);
+    if (!Number.isFinite(targetValue) || targetValue < 0) {
+      throw new LedgerError("Số dư không hợp lệ");
+    }
+
+    return this.run(tx, async (t) => {
+      const [user] = await t
+        .select({ walletBalance: users.walletBalance })
+        .from(users)
+        .where(eq(users.id, userId))
+        .for("update");
+      if (!user) {
+        throw new LedgerError("Người dùng không tồn tại", 404);
+      }
+
+      const diff = targetValue - parseFloat(user.walletBalance);
+      if (Math.abs(diff) < 0.005) return undefined;
+
+      const entry = { userId, amount: Math.abs(diff), reason };
+      return diff > 0 ? this.credit(entry, t) : this.debit(entry, t);
+    });
+  }
+
+  private async post(type: "credit" | "debit", entry: LedgerEntry, tx?: DbTransaction): Promise<WalletTransaction> {
+    const amount = normalizeAmount(entry.amount);
+    const delta = type === "credit" ? sql`${amount}::numeric` : sql`-${amount}::numeric`;
+
+    return this.run(tx, async (t) => {
+      const [updated] = await t
+        .update(users)
+        .set({ walletBalance: sql`${users.walletBalance} + ${delta}`, updatedAt: new Date() })
+        .where(and(eq(users.id, entry.userId), sql`${users.walletBalance} + ${delta} >= 0`))
+        .returning({ walletBalance: users.walletBalance });
+
+      if (!updated) {
+        const [exists] = await t.select({ id: users.id }).from(users).where(eq(users.id, entry.userId));
+        if (!exists) {
+          throw new LedgerError("Người dùng không tồn tại", 404);
+        }
+        throw new InsufficientBalanceError();
+      }
+
+      const [transaction] = await t
+        .insert(walletTransactions)
+        .values({
+          userId: entry.userId,
+          type,
+          amount,
+          reason: entry.reason,
+          relatedOrderId: entry.relatedOrderId ?? null,
+          balanceAfter: updated.walletBalance,
+        })
+        .returning();
+      return transaction;
+    });
+  }
+
+  private async run<T>(tx: DbTransaction | undefined, fn: (tx: DbTransaction) => Promise<T>): Promise<T> {
+    return tx ? fn(tx) : db.transaction(fn);
+  }
+}
+
+export const ledger = new WalletLedger();
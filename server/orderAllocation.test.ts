@@ -0,0 +1,76 @@
+// Parallel wallet purchases racing for the last items of a product. Needs a database with the
+// schema pushed (npm run db:push): set TEST_DATABASE_URL to a throwaway Neon branch. The test
+// leaves its users, product and orders behind, so never point it at production.
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { randomUUID } from "node:crypto";
+
+const databaseUrl = process.env.TEST_DATABASE_URL;
+
+test("parallel wallet orders never sell an item twice or oversell stock", { skip: !databaseUrl && "TEST_DATABASE_URL is not set" }, async () => {
+  // server/db connects on import, so point it at the test database first
+  process.env.DATABASE_URL = databaseUrl;
+  const { storage, OrderError } = await import("./storage");
+  const { ledger } = await import("./ledger");
+  const { db, pool } = await import("./db");
+  const { orderItems, productItems } = await import("@shared/schema");
+  const { eq, inArray } = await import("drizzle-orm");
+
+  const run = randomUUID().slice(0, 8);
+  const itemCount = 5;
+  const buyerCount = 12;
+
+  try {
+    const seller = await storage.createUser({ email: `seller-${run}@test.local`, password: "x", firstName: "Seller" });
+    const created = await storage.createProduct({
+      sellerId: seller.id,
+      title: `Race ${run}`,
+      category: "account",
+      price: "10000.00",
+      stock: itemCount,
+      status: "active",
+    });
+    await storage.createProductItems(
+      Array.from({ length: itemCount }, (_, index) => ({
+        productId: created.id,
+        content: `race${run}${index}|password`,
+        status: "available" as const,
+      }))
+    );
+    const product = (await storage.getProduct(created.id))!;
+
+    const buyers = [];
+    for (let index = 0; index < buyerCount; index++) {
+      const buyer = await storage.createUser({ email: `buyer-${run}-${index}@test.local`, password: "x", firstName: "Buyer" });
+      await ledger.credit({ userId: buyer.id, amount: "100000", reason: "Test top-up" });
+      buyers.push(buyer);
+    }
+
+    const results = await Promise.allSettled(
+      buyers.map((buyer) => storage.createWalletOrder({ buyerId: buyer.id, product, quantity: 1, unitPrice: product.price }))
+    );
+
+    const orders = results.flatMap((result) => (result.status === "fulfilled" ? [result.value] : []));
+    const failures = results.flatMap((result) => (result.status === "rejected" ? [result.reason] : []));
+    assert.equal(orders.length, itemCount, "exactly the available items are sold");
+    for (const failure of failures) {
+      assert.ok(failure instanceof OrderError, `losing buyers get an OrderError, got ${failure}`);
+    }
+
+    const delivered = await db
+      .select({ productItemId: orderItems.productItemId })
+      .from(orderItems)
+      .where(inArray(orderItems.orderId, orders.map((order) => order.id)));
+    const deliveredIds = delivered.map((line) => line.productItemId);
+    assert.equal(deliveredIds.length, itemCount);
+    assert.equal(new Set(deliveredIds).size, itemCount, "no item is delivered twice");
+
+    const items = await db.select().from(productItems).where(eq(productItems.productId, product.id));
+    assert.ok(items.every((item) => item.status === "sold"));
+
+    const after = (await storage.getProduct(product.id))!;
+    assert.equal(after.stock, 0, "stock follows the unsold items and never goes negative");
+  } finally {
+    await pool.end();
+  }
+});
@@ -0,0 +1,98 @@
+import type { Request, RequestHandler } from "express";
+import { storage } from "./storage";
+
+export interface RateLimitRule {
+  max: number;
+  windowSeconds: number;
+}
+
+// Per route group: a limit per client IP and, where the caller can be identified (logged-in
+// user, or the email/username being tried), a limit per account
+export interface RateLimitPolicy {
+  ip?: RateLimitRule;
+  account?: RateLimitRule;
+}
+
+export type RateLimitGroup = "api" | "login" | "two_factor" | "register" | "password_reset" | "deposits" | "messages";
+
+const DEFAULT_POLICIES: Record<RateLimitGroup, RateLimitPolicy> = {
+  api: { ip: { max: 600, windowSeconds: 60 } },
+  login: { ip: { max: 30, windowSeconds: 15 * 60 }, account: { max: 15, windowSeconds: 15 * 60 } },
+  two_factor: { ip: { max: 30, windowSeconds: 15 * 60 } },
+  register: { ip: { max: 5, windowSeconds: 60 * 60 } },
+  password_reset: { ip: { max: 10, windowSeconds: 60 * 60 }, account: { max: 3, windowSeconds: 60 * 60 } },
+  deposits: { ip: { max: 30, windowSeconds: 60 * 60 }, account: { max: 10, windowSeconds: 60 * 60 } },
+  messages: { ip: { max: 120, windowSeconds: 60 }, account: { max: 30, windowSeconds: 60 } },
+};
+
+// Progressive lockout: every 5 failed logins lock the account for 1, 2, 4 ... minutes, up to a day
+export const LOGIN_LOCKOUT_POLICY = { threshold: 5, baseSeconds: 60, maxSeconds: 24 * 60 * 60 };
+
+// Admins override limits with the `rate_limits` system setting, e.g.
+// {"login": {"ip": {"max": 50, "windowSeconds": 900}}}. Read at most once a minute.
+const OVERRIDES_TTL_MS = 60 * 1000;
+let overridesCache: { loadedAt: number; value: Partial<Record<RateLimitGroup, RateLimitPolicy>> } | null = null;
+
+async function getPolicy(group: RateLimitGroup): Promise<RateLimitPolicy> {
+  if (!overridesCache || Date.now() - overridesCache.loadedAt > OVERRIDES_TTL_MS) {
+    let value = {};
+    try {
+      const raw = await storage.getSystemSetting("rate_limits");
+      if (raw) value = JSON.parse(raw);
+    } catch (error) {
+      console.error("Invalid rate_limits setting:", error);
+    }
+    overridesCache = { loadedAt: Date.now(), value };
+  }
+  return { ...DEFAULT_POLICIES[group], ...overridesCache.value[group] };
+}
+
+function accountKey(req: Request): string | null {
+  const userId = (req.session as any)?.userId;
+  if (userId) return userId;
+  const login = req.body?.email ?? req.body?.username;
+  return typeof login === "string" && login.trim() ? login.trim().toLowerCase() : null;
+}
+
+/**
+ * Counts the request against its group's buckets in Postgres and answers 429 with
+ * Retry-After once any of them is over the limit. If the database is unreachable the request
+ * goes through - the route itself will fail soon enough.
+ */
+export function rateLimit(group: RateLimitGroup): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const policy = await getPolicy(group);
+      const checks: { key: string; rule: RateLimitRule }[] = [];
+      if (policy.ip) {
+        checks.push({ key: `${group}:ip:${req.ip}`, rule: policy.ip });
+      }
+      const account = policy.account ? accountKey(req) : null;
+      if (policy.account && account) {
+        checks.push({ key: `${group}:user:${account}`, rule: policy.account });
+      }
+
+      for (const { key, rule } of checks) {
+        const bucket = await storage.hitRateLimit(key, rule.windowSeconds);
+        const resetSeconds = Math.max(1, Math.ceil((bucket.expiresAt.getTime() - Date.now()) / 1000));
+        res.setHeader("RateLimit-Limit", rule.max);
+        res.setHeader("RateLimit-Remaining", Math.max(0, rule.max - bucket.count));
+        res.setHeader("RateLimit-Reset", resetSeconds);
+
+        if (bucket.count > rule.max) {
+          res.setHeader("Retry-After", resetSeconds);
+          return res.status(429).json({ message: `Bạn thao tác quá nhanh, vui lòng thử lại sau ${resetSeconds} giây` });
+        }
+      }
+      next();
+    } catch (error) {
+      console.error(`Rate limit check failed (${group}):`, error);
+      next();
+    }
+  };
+}
+
+export function lockoutMessage(lockedUntil: Date): string {
+  const minutes = Math.max(1, Math.ceil((lockedUntil.getTime() - Date.now()) / 60000));
+  return `Tài khoản tạm thời bị khóa do đăng nhập sai nhiều lần. Vui lòng thử lại sau ${minutes} phút`;
+}
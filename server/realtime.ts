@@ -0,0 +1,202 @@
+import type { Server, IncomingMessage, ServerResponse } from "http";
+import type { Duplex } from "stream";
+import { WebSocketServer, WebSocket } from "ws";
+import type { Request, Response } from "express";
+import { getSession } from "./customAuth";
+import { storage } from "./storage";
+import type { Message, Notification } from "@shared/schema";
+
+// Server -> client events. Everything here can also be fetched over REST, so clients that
+// can't keep a socket open just keep polling.
+export type RealtimeEvent =
+  | { type: "message:new"; conversationId: string; message: Message }
+  | { type: "message:read"; conversationId: string; readerId: string; readAt: string }
+  | { type: "typing"; conversationId: string; userId: string; isTyping: boolean }
+  | { type: "notification:new"; notification: Notification }
+  | { type: "presence"; userId: string; online: boolean; lastSeenAt: string };
+
+// Client -> server messages
+type ClientMessage =
+  | { type: "typing"; conversationId: string; isTyping?: boolean }
+  | { type: "read"; conversationId: string }
+  | { type: "ping" };
+
+const PATH = "/ws";
+const HEARTBEAT_MS = 30 * 1000;
+
+interface LiveSocket extends WebSocket {
+  userId: string;
+  isAlive: boolean;
+}
+
+/**
+ * WebSocket hub on the app's HTTP server at /ws. The upgrade request is authenticated with
+ * the express session cookie; other upgrade paths (Vite HMR in development) are left alone.
+ * A user may have several sockets (tabs); they are online while at least one is open.
+ */
+export class RealtimeHub {
+  private sockets = new Map<string, Set<LiveSocket>>();
+  private wss: WebSocketServer | null = null;
+  private heartbeat: NodeJS.Timeout | null = null;
+
+  attach(httpServer: Server): void {
+    if (this.wss) return;
+    const wss = new WebSocketServer({ noServer: true });
+    this.wss = wss;
+
+    httpServer.on("upgrade", (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+      const pathname = new URL(req.url || "/", "http://localhost").pathname;
+      if (pathname !== PATH) return;
+
+      this.authenticate(req)
+        .then((userId) => {
+          if (!userId) {
+            socket.write("HTTP/1.1 401 Unauthorized\r\nConnection: close\r\n\r\n");
+            socket.destroy();
+            return;
+          }
+          wss.handleUpgrade(req, socket, head, (ws) => this.register(userId, ws as LiveSocket));
+        })
+        .catch((error) => {
+          console.error("WebSocket upgrade failed:", error);
+          socket.destroy();
+        });
+    });
+
+    // Drop sockets that stopped answering pings and keep lastSeenAt fresh for the REST fallback
+    this.heartbeat = setInterval(() => {
+      for (const [userId, userSockets] of Array.from(this.sockets.entries())) {
+        for (const ws of Array.from(userSockets)) {
+          if (!ws.isAlive) {
+            ws.terminate();
+            continue;
+          }
+          ws.isAlive = false;
+          ws.ping();
+        }
+        storage.updateUserLastSeen(userId).catch(() => {});
+      }
+    }, HEARTBEAT_MS);
+    wss.on("close", () => {
+      if (this.heartbeat) clearInterval(this.heartbeat);
+    });
+  }
+
+  isOnline(userId: string): boolean {
+    return (this.sockets.get(userId)?.size ?? 0) > 0;
+  }
+
+  sendToUser(userId: string, event: RealtimeEvent): void {
+    const userSockets = this.sockets.get(userId);
+    if (!userSockets) return;
+    const data = JSON.stringify(event);
+    for (const ws of Array.from(userSockets)) {
+      if (ws.readyState === WebSocket.OPEN) ws.send(data);
+    }
+  }
+
+  sendToUsers(userIds: string[], event: RealtimeEvent): void {
+    for (const userId of Array.from(new Set(userIds))) {
+      this.sendToUser(userId, event);
+    }
+  }
+
+  // Closes the user's sockets, e.g. after their sessions were revoked
+  disconnectUser(userId: string): void {
+    for (const ws of Array.from(this.sockets.get(userId) ?? [])) {
+      ws.close(4001, "Session revoked");
+    }
+  }
+
+  // Runs the session middleware against the upgrade request to find the logged-in user
+  private authenticate(req: IncomingMessage): Promise<string | undefined> {
+    return new Promise((resolve, reject) => {
+      const res = {} as ServerResponse;
+      getSession()(req as Request, res as Response, (error?: unknown) => {
+        if (error) return reject(error);
+        resolve(((req as Request).session as any)?.userId);
+      });
+    });
+  }
+
+  private register(userId: string, ws: LiveSocket): void {
+    ws.userId = userId;
+    ws.isAlive = true;
+
+    let userSockets = this.sockets.get(userId);
+    const cameOnline = !userSockets || userSockets.size === 0;
+    if (!userSockets) {
+      userSockets = new Set();
+      this.sockets.set(userId, userSockets);
+    }
+    userSockets.add(ws);
+
+    ws.on("pong", () => {
+      ws.isAlive = true;
+    });
+    ws.on("message", (raw) => {
+      this.handleClientMessage(ws, raw.toString()).catch((error) => {
+        console.error("WebSocket message failed:", error);
+      });
+    });
+    ws.on("close", () => {
+      userSockets!.delete(ws);
+      if (userSockets!.size === 0) {
+        this.sockets.delete(userId);
+        this.announcePresence(userId, false).catch(() => {});
+      }
+    });
+
+    if (cameOnline) {
+      this.announcePresence(userId, true).catch(() => {});
+    }
+  }
+
+  private async handleClientMessage(ws: LiveSocket, raw: string): Promise<void> {
+    let message: ClientMessage;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if (message.type === "ping") {
+      ws.send(JSON.stringify({ type: "pong" }));
+      return;
+    }
+    if (message.type !== "typing" && message.type !== "read") return;
+
+    const conversation = await storage.getConversation(message.conversationId);
+    if (!conversation || (conversation.participant1Id !== ws.userId && conversation.participant2Id !== ws.userId)) {
+      return;
+    }
+    const otherId = conversation.participant1Id === ws.userId ? conversation.participant2Id : conversation.participant1Id;
+
+    if (message.type === "typing") {
+      this.sendToUser(otherId, {
+        type: "typing",
+        conversationId: conversation.id,
+        userId: ws.userId,
+        isTyping: message.isTyping !== false,
+      });
+    } else {
+      const read = await storage.markMessagesAsRead(conversation.id, ws.userId);
+      if (read > 0) {
+        this.sendReadReceipt(conversation.id, ws.userId, otherId);
+      }
+    }
+  }
+
+  sendReadReceipt(conversationId: string, readerId: string, senderId: string): void {
+    this.sendToUser(senderId, { type: "message:read", conversationId, readerId, readAt: new Date().toISOString() });
+  }
+
+  // Presence goes to the people the user has conversations with
+  private async announcePresence(userId: string, online: boolean): Promise<void> {
+    await storage.updateUserLastSeen(userId);
+    const partnerIds = await storage.getConversationPartnerIds(userId);
+    this.sendToUsers(partnerIds, { type: "presence", userId, online, lastSeenAt: new Date().toISOString() });
+  }
+}
+
+export const realtime = new RealtimeHub();
@@ -1,10 +1,43 @@
-import type { Express, Request, Response } from "express";
+import type { Express, Request, Response, NextFunction } from "express";
 import { createServer, type Server } from "http";
 import express from "express";
-import { storage, hashUid } from "./storage";
-import { setupCustomAuth, isAuthenticated, requireRole } from "./customAuth";
+import { storage, hashUid, OrderError, type WarrantyResolution } from "./storage";
+import { ledger, LedgerError } from "./ledger";
+import {
+  extractPaymentCodes,
+  normalizeMemo,
+  amountsMatch,
+  parseProviderPayload,
+  parseStatementCsv,
+  type IncomingBankTransaction,
+} from "./bankStatements";
+import { buildVietQrPayload, renderVietQr, resolveBankBin, paymentMemo } from "./vietqr";
+import { jobRunner, JobError } from "./jobs";
+import { signDownloadToken, verifyDownloadToken, resolveUploadPath } from "./downloads";
+import { isTelegramConfigured, sendTelegramMessage, hasValidTelegramSecret, parseTelegramCommand } from "./telegram";
+import { queueNotificationEmail, processEmailOutbox, queueDailyDigests, queueTestEmail } from "./email";
+import { realtime } from "./realtime";
+import { encryptContent, decryptContent, REDACTED_CONTENT } from "./itemCrypto";
+import {
+  ACCOUNT_FORMATS,
+  FIELD_LABELS,
+  formatForPlatform,
+  getAccountFormat,
+  parseAccountLine,
+  parseAccountLines,
+  accountIdentity,
+  publicAccountFields,
+  resolveExportFields,
+  renderAccountExport,
+  type AccountFormat,
+  type AccountFields,
+  type AccountParseResult,
+} from "./accountParser";
+import { rateLimit } from "./rateLimit";
+import { resolveItemChecker, checkablePlatforms, listItemCheckers, processItemCheckRun } from "./itemCheckers";
+import { setupCustomAuth, isAuthenticated, requireRole, requireVerifiedEmail, requireTwoFactorCode } from "./customAuth";
 import { db } from "./db";
-import { users } from "@shared/schema";
+import { users, type Order, type Product, type ProductItem, type ItemImport, type Checkout, type Deposit, type BankTransaction, type FlashSale, type File as FileRecord } from "@shared/schema";
 import { eq } from "drizzle-orm";
 import multer from "multer";
 import path from "path";
@@ -25,7 +58,32 @@ type NotificationType =
   | "wishlist_price_drop"
   | "warranty_claim"
   | "dispute_update"
-  | "bundle_discount";
+  | "bundle_discount"
+  | "wishlist_back_in_stock"
+  | "software_update"
+  | "new_device_login";
+
+// Telegram preference that covers each notification type; types not listed are in-app only
+const telegramSettingsMap: Partial<Record<NotificationType, "notifyOrders" | "notifyMessages" | "notifyWithdrawals">> = {
+  new_order: "notifyOrders",
+  order_paid: "notifyOrders",
+  warranty_claim: "notifyOrders",
+  dispute_update: "notifyOrders",
+  software_update: "notifyOrders",
+  new_message: "notifyMessages",
+  withdrawal_update: "notifyWithdrawals",
+  deposit_update: "notifyWithdrawals",
+};
+
+async function deliverToTelegram(userId: string, type: NotificationType, title: string, message: string) {
+  const settingKey = telegramSettingsMap[type];
+  if (!settingKey || !isTelegramConfigured()) return;
+
+  const settings = await storage.getTelegramSettings(userId);
+  if (!settings?.isVerified || !settings.chatId || !settings[settingKey]) return;
+
+  await sendTelegramMessage(settings.chatId, `${title}\n\n${message}`);
+}
 
 async function sendNotification(
   userId: string, 
@@ -35,6 +93,11 @@ async function sendNotification(
   link?: string,
   metadata?: Record<string, unknown>
 ) {
+  // Telegram has its own preferences; don't hold up the caller on the Bot API
+  deliverToTelegram(userId, type, title, message).catch((error) => {
+    console.error("Failed to deliver Telegram notification:", error);
+  });
+
   try {
     const settings = await storage.getNotificationSettings(userId);
     
@@ -53,14 +116,23 @@ async function sendNotification(
       warranty_claim: "systemNotifications",
       dispute_update: "systemNotifications",
       bundle_discount: "systemNotifications",
+      wishlist_back_in_stock: "systemNotifications",
+      software_update: "systemNotifications",
+      new_device_login: "systemNotifications",
     };
     
     const settingKey = typeSettingsMap[type] as keyof typeof settings;
     if (settings && settings[settingKey] === false) {
       return null;
     }
+
+    if (settings?.emailNotifications) {
+      queueNotificationEmail(userId, type, title, message, link).catch((error) => {
+        console.error("Failed to queue notification email:", error);
+      });
+    }
     
-    return storage.createNotification({
+    const notification = await storage.createNotification({
       userId,
       type,
       title,
@@ -68,12 +140,577 @@ async function sendNotification(
       link,
       metadata,
     });
+    realtime.sendToUser(userId, { type: "notification:new", notification });
+    return notification;
   } catch (error) {
     console.error("Failed to send notification:", error);
     return null;
   }
 }
 
+// Account credentials are stored encrypted. Only the order's buyer and seller get them back in
+// clear; anyone else (admins included) sees a placeholder.
+function revealOrder<T extends Order>(order: T, viewerId: string): T {
+  if (!order.deliveredContent) return order;
+  if (order.buyerId !== viewerId && order.sellerId !== viewerId) {
+    return { ...order, deliveredContent: REDACTED_CONTENT };
+  }
+  try {
+    return { ...order, deliveredContent: decryptContent(order.deliveredContent) };
+  } catch (error) {
+    console.error(`Failed to decrypt delivered content of order ${order.id}:`, error);
+    return { ...order, deliveredContent: REDACTED_CONTENT };
+  }
+}
+
+// Same for inventory items: only the product's seller sees the credentials
+function revealItem(item: ProductItem, product: Product, viewerId: string): ProductItem {
+  if (product.sellerId !== viewerId) {
+    return { ...item, content: REDACTED_CONTENT };
+  }
+  try {
+    return { ...item, content: decryptContent(item.content) };
+  } catch (error) {
+    console.error(`Failed to decrypt product item ${item.id}:`, error);
+    return { ...item, content: REDACTED_CONTENT };
+  }
+}
+
+// Ends every session of a user and drops their live sockets
+async function forceLogout(userId: string): Promise<number> {
+  const revoked = await storage.deleteUserSessions(userId);
+  realtime.disconnectUser(userId);
+  return revoked;
+}
+
+// Tells wishlisting buyers their saved product got cheaper (admin/seller price edit or a
+// flash sale starting). Returns how many were notified.
+async function announcePriceDrop(product: Product, oldPrice: string, newPrice: string, flashSale?: FlashSale) {
+  if (product.status !== "active" || !(parseFloat(newPrice) < parseFloat(oldPrice))) return 0;
+
+  const entries = await storage.claimWishlistPriceDrops(product.id, newPrice);
+  const format = (price: string) => `${parseFloat(price).toLocaleString('vi-VN')}đ`;
+  for (const entry of entries) {
+    await sendNotification(
+      entry.userId,
+      "wishlist_price_drop",
+      flashSale ? `Flash sale: ${flashSale.title}` : "Sản phẩm yêu thích đã giảm giá",
+      `"${product.title}" giảm từ ${format(oldPrice)} xuống ${format(newPrice)}` +
+        (flashSale ? ` đến ${flashSale.endTime.toLocaleString('vi-VN')}.` : "."),
+      `/products/${product.id}`,
+      { productId: product.id, oldPrice, newPrice, flashSaleId: flashSale?.id }
+    );
+  }
+  return entries.length;
+}
+
+async function announceRestock(product: Product) {
+  if (product.status !== "active" || product.stock <= 0) return 0;
+
+  const entries = await storage.claimWishlistRestocks(product.id);
+  for (const entry of entries) {
+    await sendNotification(
+      entry.userId,
+      "wishlist_back_in_stock",
+      "Sản phẩm yêu thích đã có hàng trở lại",
+      `"${product.title}" đã có hàng trở lại (còn ${product.stock}).`,
+      `/products/${product.id}`,
+      { productId: product.id, stock: product.stock }
+    );
+  }
+  return entries.length;
+}
+
+// Check if buyer was referred and pay the referrer their commission on a paid order
+async function payReferralCommission(buyerId: string, order: Order) {
+  try {
+    const referral = await storage.getReferralByReferredId(buyerId);
+    if (referral && referral.isActive) {
+      // Default to 5% if commissionRate is not set
+      const rate = parseFloat(referral.commissionRate || "5.00");
+      const referralCommissionRate = isNaN(rate) ? 0.05 : rate / 100;
+      const referralCommission = (parseFloat(order.price) * referralCommissionRate).toFixed(2);
+      
+      if (parseFloat(referralCommission) > 0) {
+        const referrer = await storage.getUser(referral.referrerId);
+        if (referrer) {
+          await ledger.credit({
+            userId: referral.referrerId,
+            amount: referralCommission,
+            reason: `Hoa hồng giới thiệu từ đơn hàng #${order.orderCode}`,
+            relatedOrderId: order.id,
+          });
+          
+          await storage.updateReferralEarnings(referral.id, referralCommission);
+          await storage.updateReferrerTotalEarnings(referral.referrerId, referralCommission);
+          
+          await sendNotification(
+            referral.referrerId,
+            "referral_bonus",
+            "Bạn nhận được hoa hồng giới thiệu!",
+            `Bạn nhận được ${parseInt(referralCommission).toLocaleString("vi-VN")}đ hoa hồng từ đơn hàng của người bạn giới thiệu.`,
+            "/referral",
+            { amount: referralCommission, orderId: order.id }
+          );
+          
+          console.log(`Referral commission paid: ${referralCommission} to ${referral.referrerId}`);
+        }
+      }
+    }
+  } catch (refError) {
+    console.error("Error processing referral commission:", refError);
+  }
+}
+
+// Notify buyer and seller that a QR / manual order has been confirmed as paid
+async function notifyOrderConfirmed(order: Order, productTitle: string) {
+  await sendNotification(
+    order.buyerId,
+    "order_paid",
+    "Đơn hàng đã thanh toán thành công",
+    `Đơn hàng #${order.orderCode} cho sản phẩm "${productTitle}" đã được xác nhận. Kiểm tra nội dung đã giao.`,
+    "/dashboard",
+    { orderId: order.id, orderCode: order.orderCode }
+  );
+  
+  await sendNotification(
+    order.sellerId,
+    "new_order",
+    "Bạn có đơn hàng mới đã thanh toán",
+    `Đơn hàng #${order.orderCode} cho sản phẩm "${productTitle}" đã được thanh toán. Tiền sẽ được chuyển vào ví sau 3 ngày.`,
+    "/seller",
+    { orderId: order.id, orderCode: order.orderCode }
+  );
+}
+
+// One summary for the buyer, one notification per seller for their share of a paid cart checkout
+async function notifyCheckoutPaid(checkout: Checkout, orders: (Order & { product: Product })[]) {
+  await sendNotification(
+    checkout.buyerId,
+    "order_paid",
+    "Giỏ hàng đã thanh toán thành công",
+    `Thanh toán #${checkout.checkoutCode} (${orders.length} đơn hàng) đã hoàn tất. Kiểm tra nội dung đã giao.`,
+    "/dashboard",
+    { checkoutId: checkout.id, orderIds: orders.map((o) => o.id) }
+  );
+
+  const bySeller = new Map<string, (Order & { product: Product })[]>();
+  for (const order of orders) {
+    bySeller.set(order.sellerId, [...(bySeller.get(order.sellerId) || []), order]);
+  }
+  for (const [sellerId, sellerOrders] of Array.from(bySeller.entries())) {
+    await sendNotification(
+      sellerId,
+      "new_order",
+      "Bạn có đơn hàng mới đã thanh toán",
+      `${sellerOrders.map((o) => `#${o.orderCode} (${o.product.title})`).join(", ")} đã được thanh toán. Tiền sẽ được chuyển vào ví sau 3 ngày.`,
+      "/seller",
+      { checkoutId: checkout.id, orderIds: sellerOrders.map((o) => o.id) }
+    );
+  }
+}
+
+// Re-price the cart against live prices, flash sales and stock before showing or checking it out
+async function priceCart(userId: string) {
+  const cartItems = await storage.getCartItems(userId);
+  const items = [];
+  for (const item of cartItems) {
+    const { product } = item;
+    const flashSale = await storage.getProductFlashSale(product.id);
+    const unitPrice = flashSale ? flashSale.salePrice : product.price;
+
+    let issue: string | null = null;
+    if (product.status !== "active") {
+      issue = "Sản phẩm đã ngừng bán";
+    } else if (product.category === "account" && product.stock < item.quantity) {
+      issue = `Chỉ còn ${product.stock} sản phẩm có sẵn`;
+    } else if (flashSale && flashSale.maxQuantity !== null && flashSale.soldQuantity + item.quantity > flashSale.maxQuantity) {
+      issue = `Flash sale chỉ còn ${Math.max(0, flashSale.maxQuantity - flashSale.soldQuantity)} suất`;
+    }
+
+    items.push({
+      ...item,
+      unitPrice,
+      lineTotal: (parseFloat(unitPrice) * item.quantity).toFixed(2),
+      flashSaleProductId: flashSale?.id,
+      priceChanged: parseFloat(unitPrice) !== parseFloat(item.unitPriceAtAdd),
+      issue,
+    });
+  }
+
+  return {
+    items,
+    total: items.reduce((sum, item) => sum + parseFloat(item.lineTotal), 0).toFixed(2),
+    sellerCount: new Set(items.map((item) => item.product.sellerId)).size,
+    hasIssues: items.some((item) => item.issue !== null),
+  };
+}
+
+// Confirming a QR order, checkout or deposit as paid - shared by the admin buttons and bank
+// reconciliation. Each returns undefined if someone already settled it; order/checkout
+// confirmation throws OrderError when the reserved items can no longer be delivered.
+async function confirmOrderPayment(order: Order & { product: Product }, adminId?: string, bankTransactionId?: string) {
+  // Sell all reserved items, deliver their content, count the flash sale quota and book the
+  // seller earning in one transaction. Stock is re-synced inside; software has unlimited stock.
+  const settled = await storage.settleOrderPayment(order.id, adminId);
+  if (!settled) return undefined;
+
+  await storage.createAdminLog({
+    adminId,
+    action: "order_confirmed",
+    meta: { orderId: order.id, bankTransactionId },
+  });
+
+  await notifyOrderConfirmed(settled, order.product.title);
+
+  await payReferralCommission(order.buyerId, settled);
+  return settled;
+}
+
+async function confirmCheckoutPayment(checkoutId: string, adminId?: string, bankTransactionId?: string) {
+  const settled = await storage.settleCheckoutPayment(checkoutId, adminId);
+  if (!settled) return undefined;
+
+  await storage.createAdminLog({
+    adminId,
+    action: "checkout_confirmed",
+    meta: { checkoutId, orderIds: settled.orders.map((o) => o.id), bankTransactionId },
+  });
+
+  const orders = await storage.getCheckoutOrders(checkoutId);
+  await notifyCheckoutPaid(settled.checkout, orders.filter((o) => settled.orders.some((s) => s.id === o.id)));
+  for (const order of settled.orders) {
+    await payReferralCommission(order.buyerId, order);
+  }
+  return settled;
+}
+
+async function approveDepositPayment(deposit: Deposit, adminId?: string, bankTransactionId?: string) {
+  const approved = await storage.approveDeposit(deposit.id);
+  if (!approved) return undefined;
+
+  await storage.createAdminLog({
+    adminId,
+    action: "deposit_approved",
+    meta: { depositId: deposit.id, amount: deposit.amount, userId: deposit.userId, bankTransactionId },
+  });
+
+  await sendNotification(
+    deposit.userId,
+    "deposit_update",
+    "Nạp tiền thành công",
+    `Yêu cầu nạp ${parseFloat(deposit.amount).toLocaleString("vi-VN")}đ đã được phê duyệt. Số dư mới: ${parseFloat(approved.transaction.balanceAfter || "0").toLocaleString("vi-VN")}đ`,
+    "/dashboard",
+    { depositId: deposit.id, amount: deposit.amount }
+  );
+  return approved;
+}
+
+// Match one recorded bank transfer to the order / checkout / deposit code in its memo and
+// settle it. Anything that is not an exact, unambiguous match stays in the review queue.
+async function reconcileBankTransaction(record: BankTransaction): Promise<BankTransaction> {
+  const codes = extractPaymentCodes(record.description);
+  const [checkouts, orders, deposit] = await Promise.all([
+    Promise.all(codes.checkoutCodes.map((code) => storage.getCheckoutByCode(code))),
+    Promise.all(codes.orderCodes.map((code) => storage.getOrderByCode(code))),
+    storage.findPendingDepositByMemo(normalizeMemo(record.description)),
+  ]);
+
+  const candidates = [
+    ...checkouts.filter((c): c is Checkout => !!c).map((c) => ({ type: "checkout", id: c.id, expected: c.totalAmount, status: c.status as string })),
+    ...orders.filter((o): o is Order => !!o).map((o) => ({ type: "order", id: o.id, expected: o.price, status: o.status as string })),
+    ...(deposit ? [{ type: "deposit", id: deposit.id, expected: deposit.amount, status: deposit.status as string }] : []),
+  ];
+
+  if (candidates.length === 0) {
+    return storage.updateBankTransaction(record.id, { status: "unmatched", note: "Không tìm thấy mã đơn hàng / nạp tiền trong nội dung chuyển khoản" });
+  }
+  if (candidates.length > 1) {
+    return storage.updateBankTransaction(record.id, { status: "unmatched", note: "Nội dung chứa nhiều mã, cần kiểm tra thủ công" });
+  }
+
+  const match = candidates[0];
+  const matched = { matchedType: match.type, matchedId: match.id };
+  if (match.status === "paid" || match.status === "refunded") {
+    return storage.updateBankTransaction(record.id, { ...matched, status: "unmatched", note: "Mã này đã được thanh toán trước đó - có thể chuyển khoản trùng" });
+  }
+  if (!amountsMatch(record.amount, match.expected)) {
+    return storage.updateBankTransaction(record.id, {
+      ...matched,
+      status: "amount_mismatch",
+      note: `Số tiền nhận ${parseFloat(record.amount).toLocaleString("vi-VN")}đ khác số tiền cần thanh toán ${parseFloat(match.expected).toLocaleString("vi-VN")}đ`,
+    });
+  }
+
+  return settleBankTransaction(record, match.type, match.id);
+}
+
+// Runs the same confirmation as the admin buttons for a bank transfer and records the outcome
+async function settleBankTransaction(record: BankTransaction, type: string, targetId: string, reviewerId?: string): Promise<BankTransaction> {
+  const resolved = reviewerId
+    ? { status: "resolved" as const, reviewedBy: reviewerId, reviewedAt: new Date() }
+    : { status: "matched" as const };
+  try {
+    let settled: unknown;
+    if (type === "order") {
+      const order = await storage.getOrderWithDetails(targetId);
+      settled = order && await confirmOrderPayment(order, reviewerId, record.id);
+    } else if (type === "checkout") {
+      settled = await confirmCheckoutPayment(targetId, reviewerId, record.id);
+    } else {
+      const deposit = await storage.getDepositWithUser(targetId);
+      settled = deposit && await approveDepositPayment(deposit, reviewerId, record.id);
+    }
+
+    if (!settled) {
+      return storage.updateBankTransaction(record.id, {
+        matchedType: type,
+        matchedId: targetId,
+        status: "unmatched",
+        note: "Không tìm thấy hoặc đã được xử lý trước đó",
+      });
+    }
+    return storage.updateBankTransaction(record.id, { ...resolved, matchedType: type, matchedId: targetId });
+  } catch (error: any) {
+    return storage.updateBankTransaction(record.id, {
+      matchedType: type,
+      matchedId: targetId,
+      status: "failed",
+      note: error instanceof OrderError ? error.message : `Lỗi xử lý: ${error.message}`,
+    });
+  }
+}
+
+async function recordBankTransactions(provider: string, transactions: IncomingBankTransaction[]) {
+  const summary = { received: transactions.length, duplicates: 0, matched: 0, review: 0 };
+  for (const txn of transactions) {
+    const record = await storage.createBankTransaction({
+      provider,
+      externalId: txn.externalId,
+      amount: txn.amount,
+      description: txn.description,
+      transactedAt: txn.transactedAt,
+      raw: txn.raw as any,
+    });
+    if (!record) {
+      summary.duplicates++;
+      continue;
+    }
+
+    const result = await reconcileBankTransaction(record);
+    if (result.status === "matched") {
+      summary.matched++;
+    } else {
+      summary.review++;
+    }
+  }
+  return summary;
+}
+
+function hasValidWebhookSecret(req: Request): boolean {
+  const secret = process.env.BANK_WEBHOOK_SECRET;
+  if (!secret) return false;
+
+  // Casso sends "Secure-Token", SePay "Authorization: Apikey <key>", the stub "X-Webhook-Secret"
+  const provided = String(
+    req.headers["secure-token"] ||
+    req.headers["x-webhook-secret"] ||
+    (req.headers.authorization || "").replace(/^(Apikey|Bearer)\s+/i, "")
+  );
+  const a = Buffer.from(provided);
+  const b = Buffer.from(secret);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// Every setting getBankSettings reads; see requireTwoFactorForBankSettings
+const BANK_SETTING_KEYS = new Set(["bank_name", "account_number", "account_holder", "bank_bin"]);
+
+async function getBankSettings() {
+  const settings = await storage.getAllSystemSettings();
+  const bankName = settings.bank_name || "Vietcombank";
+  return {
+    bankName,
+    accountNumber: settings.account_number || "9878808855",
+    accountHolder: settings.account_holder || "LUONG THI LIEN",
+    bankBin: resolveBankBin(bankName, settings.bank_bin),
+  };
+}
+
+// Answers with the VietQR for paying `amount` with memo derived from `code`:
+// JSON (payload + bank details) by default, or the image itself with ?format=png|svg
+async function sendPaymentQr(req: Request, res: Response, amount: string, code: string) {
+  const bank = await getBankSettings();
+  if (!bank.bankBin) {
+    return res.status(503).json({ message: "Chưa cấu hình mã BIN cho ngân hàng nhận tiền (bank_bin)" });
+  }
+
+  const memo = paymentMemo(code);
+  const payload = buildVietQrPayload({ bankBin: bank.bankBin, accountNumber: bank.accountNumber, amount, memo });
+
+  const format = req.query.format;
+  if (format === "png" || format === "svg") {
+    const image = await renderVietQr(payload, format);
+    res.setHeader("Content-Type", format === "png" ? "image/png" : "image/svg+xml");
+    res.setHeader("Cache-Control", "private, max-age=300");
+    return res.send(image);
+  }
+
+  res.json({
+    payload,
+    memo,
+    amount: Math.round(parseFloat(amount)),
+    bankName: bank.bankName,
+    bankBin: bank.bankBin,
+    accountNumber: bank.accountNumber,
+    accountHolder: bank.accountHolder,
+  });
+}
+
+// A buyer may download the files of a software product they paid for, and nothing else
+async function getEntitledOrder(orderId: string, userId: string): Promise<Order> {
+  const order = await storage.getOrder(orderId);
+  if (!order) {
+    throw new OrderError("Order not found", 404);
+  }
+  if (order.buyerId !== userId) {
+    throw new OrderError("Forbidden", 403);
+  }
+  if (order.status !== "paid") {
+    throw new OrderError("Đơn hàng chưa được thanh toán", 403);
+  }
+  return order;
+}
+
+// Parses an account upload (file or pasted text) in the given format and reports the lines
+// whose account is already in the system as errors. The uploaded file is deleted once read -
+// it holds plaintext credentials.
+async function parseAccountUpload(
+  file: Express.Multer.File | undefined,
+  manualAccounts: unknown,
+  format: AccountFormat
+): Promise<AccountParseResult> {
+  let text = "";
+  if (file) {
+    text = fs.readFileSync(file.path, "utf-8");
+    fs.unlink(file.path, () => {});
+  } else if (typeof manualAccounts === "string") {
+    text = manualAccounts;
+  }
+
+  const result = parseAccountLines(text, format);
+  const existing = await storage.findExistingUidHashes(result.accounts.map((account) => hashUid(account.content)));
+  if (existing.size === 0) return result;
+
+  const accounts = [];
+  const errors = [...result.errors];
+  for (const account of result.accounts) {
+    if (existing.has(hashUid(account.content))) {
+      errors.push({
+        line: account.line,
+        identity: accountIdentity(account.content),
+        reason: "duplicate_in_db",
+        message: "Tài khoản này đã tồn tại trong hệ thống",
+      });
+    } else {
+      accounts.push(account);
+    }
+  }
+  errors.sort((a, b) => a.line - b.line);
+  return { ...result, accounts, errors };
+}
+
+function accountItems(productId: string, result: AccountParseResult) {
+  return result.accounts.map((account) => ({
+    productId,
+    content: account.content,
+    uidHash: hashUid(account.content),
+    accountFormat: result.format.id,
+    accountFields: publicAccountFields(account.fields),
+    status: "available" as const,
+  }));
+}
+
+// Previewed uploads are kept this long before the seller has to upload again
+const ITEM_IMPORT_TTL_MS = 60 * 60 * 1000;
+// Line errors stored (and shown) per import; the counts always cover every line
+const MAX_IMPORT_LINE_ERRORS = 1000;
+
+// Stores a parsed upload as a pending import; the valid lines wait, encrypted, for the commit
+async function stageAccountImport(sellerId: string, productId: string | null, parsed: AccountParseResult): Promise<ItemImport> {
+  const countReason = (reason: string) => parsed.errors.filter((error) => error.reason === reason).length;
+  const staged = parsed.accounts.map((account) => ({
+    content: account.content,
+    accountFields: publicAccountFields(account.fields),
+  }));
+  return await storage.createItemImport({
+    sellerId,
+    productId,
+    accountFormat: parsed.format.id,
+    totalLines: parsed.accounts.length + parsed.errors.length,
+    validCount: parsed.accounts.length,
+    duplicateInFileCount: countReason("duplicate_in_file"),
+    duplicateInDbCount: countReason("duplicate_in_db"),
+    malformedCount: countReason("malformed"),
+    lineErrors: parsed.errors.slice(0, MAX_IMPORT_LINE_ERRORS),
+    payload: staged.length > 0 ? encryptContent(JSON.stringify(staged)) : null,
+    expiresAt: new Date(Date.now() + ITEM_IMPORT_TTL_MS),
+  });
+}
+
+function importPreview(itemImport: ItemImport) {
+  const { payload, ...preview } = itemImport;
+  return preview;
+}
+
+// A pending, unexpired import owned by the seller, or the reason it can't be committed
+async function getCommittableImport(importId: string, sellerId: string): Promise<ItemImport | string> {
+  const itemImport = await storage.getItemImport(importId);
+  if (!itemImport || itemImport.sellerId !== sellerId) return "Không tìm thấy lượt nhập";
+  if (itemImport.status !== "pending" || itemImport.expiresAt < new Date()) {
+    return "Lượt nhập đã hết hạn hoặc đã được xử lý, vui lòng tải lên lại";
+  }
+  if (itemImport.validCount === 0) return "Không có tài khoản hợp lệ nào";
+  return itemImport;
+}
+
+// Format named in the upload form, else the product platform's default
+function resolveAccountFormat(requested: unknown, platform?: string | null): AccountFormat | string {
+  if (requested === undefined || requested === "") return formatForPlatform(platform);
+  const format = getAccountFormat(String(requested));
+  return format ?? "Định dạng tài khoản không hợp lệ";
+}
+
+async function getEntitledFile(order: Order, fileId: string): Promise<FileRecord> {
+  const file = await storage.getFile(fileId);
+  if (!file || file.productId !== order.productId) {
+    throw new OrderError("File không thuộc đơn hàng này", 404);
+  }
+  return file;
+}
+
+// Seller warranty policy from a form or JSON body; days 0 means no warranty
+function parseWarrantyPolicy(body: any): { warrantyDays: number; warrantyTerms: string | null } | string {
+  const warrantyDays = body.warrantyDays === undefined || body.warrantyDays === "" ? 0 : Number(body.warrantyDays);
+  if (!Number.isInteger(warrantyDays) || warrantyDays < 0 || warrantyDays > 365) {
+    return "Số ngày bảo hành phải là số nguyên từ 0 đến 365";
+  }
+  const warrantyTerms = typeof body.warrantyTerms === "string" && body.warrantyTerms.trim() ? body.warrantyTerms.trim() : null;
+  if (warrantyTerms && warrantyTerms.length > 2000) {
+    return "Điều khoản bảo hành tối đa 2000 ký tự";
+  }
+  return { warrantyDays, warrantyTerms };
+}
+
+// Buyer verification window in minutes: 0 (none) or 30 minutes to 24 hours
+function parseVerificationWindow(body: any): { verificationWindowMinutes: number } | string {
+  const value = body.verificationWindowMinutes;
+  const minutes = value === undefined || value === "" ? 0 : Number(value);
+  if (!Number.isInteger(minutes) || (minutes !== 0 && (minutes < 30 || minutes > 24 * 60))) {
+    return "Thời gian kiểm tra phải là 0 hoặc từ 30 đến 1440 phút";
+  }
+  return { verificationWindowMinutes: minutes };
+}
+
 // Setup multer for file uploads - use persistent directory
 const uploadDir = process.env.UPLOAD_DIR || path.join(
   process.env.HOME || "/home/runner",
@@ -118,6 +755,13 @@ const upload = multer({
   },
 });
 
+const uploadStatement = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit for bank statements
+  },
+});
+
 const uploadMemory = multer({
   storage: multer.memoryStorage(),
   limits: {
@@ -136,8 +780,21 @@ export async function registerRoutes(
   httpServer: Server,
   app: Express
 ): Promise<Server> {
+  // Global per-IP limit; stricter groups are applied on the routes themselves
+  app.use("/api", rateLimit("api"));
+
   // Setup custom authentication
-  await setupCustomAuth(app);
+  await setupCustomAuth(app, {
+    onNewDeviceLogin: (user, device) =>
+      sendNotification(
+        user.id,
+        "new_device_login",
+        "Đăng nhập từ thiết bị mới",
+        `Tài khoản của bạn vừa đăng nhập trên ${device.label}${device.ip ? ` (IP ${device.ip})` : ""} lúc ${new Date(device.loginAt).toLocaleString("vi-VN")}. Nếu không phải bạn, hãy đổi mật khẩu và đăng xuất các thiết bị khác.`,
+        "/settings/sessions"
+      ),
+    onSessionsRevoked: (userId) => realtime.disconnectUser(userId),
+  });
 
   // Serve uploaded files - thumbnails are public, other files require auth
   // Serve from project directory first (for production), then from data directory (for development)
@@ -147,10 +804,23 @@ export async function registerRoutes(
   
   // Protected uploads (KYC, software, accounts, etc.)
   app.use("/uploads", (req, res, next) => {
+    // Check the path express.static will actually serve: decoded and normalized, so
+    // "/%73oftware/x" or "/thumbnails/../software/x" can't slip past the prefix checks
+    let servedPath: string;
+    try {
+      servedPath = path.posix.normalize(decodeURIComponent(req.path)).toLowerCase();
+    } catch {
+      return res.status(400).json({ message: "Bad request" });
+    }
     // Allow thumbnails without auth (already handled above)
-    if (req.path.startsWith("/thumbnails")) {
+    if (servedPath.startsWith("/thumbnails/")) {
       return next();
     }
+    // Purchased software and raw account uploads are only served through
+    // /api/orders/:id/download/:fileId
+    if (servedPath.startsWith("/software") || servedPath.startsWith("/accounts")) {
+      return res.status(403).json({ message: "Forbidden" });
+    }
     // Only allow authenticated users to access other uploads
     const userId = (req.session as any)?.userId;
     if (!userId) {
@@ -225,22 +895,41 @@ export async function registerRoutes(
     }
   });
 
+  // Release history of a software product (no file paths: downloads go through orders)
+  app.get("/api/products/:id/versions", async (req: Request, res: Response) => {
+    try {
+      const productFiles = await storage.getProductFiles(req.params.id);
+      res.json(productFiles.map((file) => ({
+        version: file.version,
+        changelog: file.changelog,
+        fileSize: file.fileSize,
+        createdAt: file.createdAt,
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // ========== ORDER ROUTES ==========
   app.get("/api/orders", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = (req.user as any).id;
       const orders = await storage.getBuyerOrders(userId);
-      res.json(orders);
+      res.json(orders.map((order) => revealOrder(order, userId)));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/orders", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/orders", isAuthenticated, requireVerifiedEmail, async (req: Request, res: Response) => {
     try {
       const userId = (req.user as any).id;
       const { productId, quantity = 1, paymentMethod = "qr" } = req.body;
 
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        return res.status(400).json({ message: "Số lượng không hợp lệ" });
+      }
+
       const product = await storage.getProductWithSeller(productId);
       if (!product) {
         return res.status(404).json({ message: "Product not found" });
@@ -252,20 +941,15 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Not enough stock" });
       }
 
-      // For account products, try to reserve an item if available
-      let productItemId: string | undefined;
-      if (product.category === "account") {
-        const item = await storage.getAvailableProductItem(productId);
-        if (item) {
-          // Reserve for 30 minutes
-          const reservedUntil = new Date(Date.now() + 30 * 60 * 1000);
-          await storage.reserveProductItem(item.id, reservedUntil);
-          productItemId = item.id;
-        }
-        // Allow order creation even without items - seller will deliver manually
+      // Charge the flash sale price while the sale is live, within its remaining quota
+      const flashSale = await storage.getProductFlashSale(productId);
+      if (flashSale && flashSale.maxQuantity !== null && flashSale.soldQuantity + quantity > flashSale.maxQuantity) {
+        const remaining = Math.max(0, flashSale.maxQuantity - flashSale.soldQuantity);
+        return res.status(400).json({ message: `Flash sale chỉ còn ${remaining} suất cho sản phẩm này.` });
       }
+      const unitPrice = flashSale ? flashSale.salePrice : product.price;
 
-      const totalPrice = (parseFloat(product.price) * quantity).toFixed(2);
+      const totalPrice = (parseFloat(unitPrice) * quantity).toFixed(2);
 
       // Handle wallet payment - deduct immediately and auto-deliver
       if (paymentMethod === "wallet") {
@@ -274,86 +958,23 @@ export async function registerRoutes(
           return res.status(400).json({ message: "Số dư ví không đủ. Vui lòng nạp thêm tiền để mua hàng." });
         }
 
-        // For account products, check if enough items are available BEFORE processing
-        let deliveredContent = "";
-        const soldItemIds: string[] = [];
-        if (product.category === "account") {
-          const items = await storage.getAvailableProductItems(productId, quantity);
-          if (items.length < quantity) {
-            return res.status(400).json({ 
-              message: `Không đủ sản phẩm. Chỉ còn ${items.length} sản phẩm có sẵn.` 
-            });
-          }
-          // Mark items as sold
-          for (const item of items) {
-            await storage.updateProductItemStatus(item.id, "sold");
-            soldItemIds.push(item.id);
+        // Quota, items, debit and seller earning are committed together in one transaction
+        let order;
+        try {
+          order = await storage.createWalletOrder({
+            buyerId: userId,
+            product,
+            quantity,
+            unitPrice,
+            flashSaleProductId: flashSale?.id,
+          });
+        } catch (error) {
+          if (error instanceof OrderError || error instanceof LedgerError) {
+            return res.status(error.status).json({ message: error.message });
           }
-          deliveredContent = items.map(item => item.content).join("\n");
-        }
-
-        // Deduct from buyer's wallet
-        const newBuyerBalance = (parseFloat(buyer.walletBalance) - parseFloat(totalPrice)).toFixed(2);
-        await storage.updateUserBalance(userId, newBuyerBalance);
-
-        // Create wallet transaction
-        await storage.createWalletTransaction({
-          userId,
-          type: "debit",
-          amount: totalPrice,
-          reason: `Mua: ${product.title} (x${quantity})`,
-        });
-
-        // Create order with paid status (auto-delivered for wallet payments)
-        const order = await storage.createOrder({
-          buyerId: userId,
-          sellerId: product.sellerId,
-          productId,
-          productItemId: soldItemIds[0], // Store first item ID
-          quantity,
-          price: totalPrice,
-          paymentMethod: paymentMethod as any,
-          status: "paid", // Auto-paid for wallet payments
-        });
-
-        // Deliver all accounts content
-        if (deliveredContent) {
-          await storage.updateOrderDeliveredContent(order.id, deliveredContent);
-        }
-
-        // Update product stock (only for account products, software has unlimited stock)
-        if (product.category === "account") {
-          await storage.updateProductStock(productId, product.stock - quantity);
+          throw error;
         }
 
-        // Calculate 5% platform commission
-        const commissionRate = 0.05;
-        const commissionAmount = (parseFloat(totalPrice) * commissionRate).toFixed(2);
-        const sellerAmount = (parseFloat(totalPrice) * (1 - commissionRate)).toFixed(2);
-
-        // Create pending earning instead of immediate credit (3 days hold) - with 5% commission deducted
-        const releaseDate = new Date();
-        releaseDate.setDate(releaseDate.getDate() + 3);
-        
-        await storage.createPendingEarning({
-          sellerId: product.sellerId,
-          orderId: order.id,
-          amount: sellerAmount, // Seller receives 95% after 5% platform fee
-          status: "pending",
-          releaseAt: releaseDate,
-        });
-
-        // Log platform commission for tracking
-        await storage.createAdminLog({
-          action: "platform_commission",
-          meta: {
-            orderId: order.id,
-            orderPrice: totalPrice,
-            commissionAmount,
-            sellerAmount,
-          },
-        });
-
         // Send notifications
         await sendNotification(
           userId,
@@ -373,65 +994,44 @@ export async function registerRoutes(
           { orderId: order.id, orderCode: order.orderCode }
         );
 
-        // Check if buyer was referred and calculate referral commission
-        try {
-          const referral = await storage.getReferralByReferredId(userId);
-          if (referral && referral.isActive) {
-            // Default to 5% if commissionRate is not set
-            const rate = parseFloat(referral.commissionRate || "5.00");
-            const referralCommissionRate = isNaN(rate) ? 0.05 : rate / 100;
-            const referralCommission = (parseFloat(totalPrice) * referralCommissionRate).toFixed(2);
-            
-            if (parseFloat(referralCommission) > 0) {
-              const referrer = await storage.getUser(referral.referrerId);
-              if (referrer) {
-                // Credit referrer's wallet using SQL to maintain numeric consistency
-                await storage.creditUserWallet(referral.referrerId, referralCommission);
-                
-                await storage.createWalletTransaction({
-                  userId: referral.referrerId,
-                  amount: referralCommission,
-                  type: "credit",
-                  reason: `Hoa hồng giới thiệu từ đơn hàng #${order.orderCode}`,
-                  relatedOrderId: order.id,
-                });
-                
-                await storage.updateReferralEarnings(referral.id, referralCommission);
-                await storage.updateReferrerTotalEarnings(referral.referrerId, referralCommission);
-                
-                await sendNotification(
-                  referral.referrerId,
-                  "referral_bonus",
-                  "Bạn nhận được hoa hồng giới thiệu!",
-                  `Bạn nhận được ${parseInt(referralCommission).toLocaleString("vi-VN")}đ hoa hồng từ đơn hàng của người bạn giới thiệu.`,
-                  "/referral",
-                  { amount: referralCommission, orderId: order.id }
-                );
-                
-                console.log(`Referral commission paid: ${referralCommission} to ${referral.referrerId}`);
-              }
-            }
-          }
-        } catch (refError) {
-          console.error("Error processing referral commission:", refError);
-        }
+        await payReferralCommission(userId, order);
 
-        return res.status(201).json(order);
+        return res.status(201).json(revealOrder(order, userId));
       }
 
-      // QR payment - create pending order
-      const order = await storage.createOrder({
+      // QR payment - create pending order, holding every account item for 30 minutes
+      const order = await storage.createPendingOrder({
         buyerId: userId,
-        sellerId: product.sellerId,
-        productId,
-        productItemId,
+        product,
         quantity,
-        price: totalPrice,
-        paymentMethod: paymentMethod as any,
-        status: "pending_payment",
+        unitPrice,
+        paymentMethod: paymentMethod as "qr" | "manual",
+        flashSaleProductId: flashSale?.id,
       });
 
       res.status(201).json(order);
+    } catch (error: any) {
+      if (error instanceof OrderError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/orders/:id/payment-qr", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const order = await storage.getOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Order not found" });
+      }
+      if (order.buyerId !== (req.user as any).id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (order.status !== "pending_payment" || !order.orderCode) {
+        return res.status(400).json({ message: "Order is not pending payment" });
+      }
+
+      await sendPaymentQr(req, res, order.price, order.orderCode);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -466,40 +1066,500 @@ export async function registerRoutes(
     }
   });
 
-  // ========== SELLER ROUTES ==========
-  app.get("/api/seller/profile", isAuthenticated, async (req: Request, res: Response) => {
+  // ========== ACCOUNT FORMATS & EXPORT ==========
+  app.get("/api/account-formats", async (req: Request, res: Response) => {
+    res.json({
+      formats: Object.values(ACCOUNT_FORMATS),
+      fieldLabels: FIELD_LABELS,
+    });
+  });
+
+  // Delivered accounts of a paid order as a file: ?type=txt|csv|json and optionally
+  // ?fields=uid,password,... to pick the columns and their order
+  app.get("/api/orders/:id/accounts/export", isAuthenticated, async (req: Request, res: Response) => {
     try {
-      const userId = (req.user as any).id;
-      const seller = await storage.getSeller(userId);
-      
-      if (!seller) {
-        return res.status(404).json({ message: "Seller profile not found" });
+      const order = await getEntitledOrder(req.params.id, (req.user as any).id);
+      const type = (req.query.type as string) || "txt";
+      if (type !== "txt" && type !== "csv" && type !== "json") {
+        return res.status(400).json({ message: "Định dạng xuất không hợp lệ" });
       }
 
-      res.json(seller);
+      const items = await storage.getOrderItems(order.id);
+      const accounts: AccountFields[] = [];
+      const formats = new Map<string, AccountFormat>();
+      const add = (format: AccountFormat, line: string) => {
+        const parsed = parseAccountLine(format, line);
+        // Lines that no longer fit their format (edited before sale) fall back to the raw layout
+        const fields = "error" in parsed ? (parseAccountLine(ACCOUNT_FORMATS.raw, line) as { fields: AccountFields }).fields : parsed.fields;
+        formats.set(format.id, format);
+        accounts.push(fields);
+      };
+
+      if (items.length > 0) {
+        for (const item of items) {
+          add(getAccountFormat(item.accountFormat) ?? ACCOUNT_FORMATS.raw, decryptContent(item.content));
+        }
+      } else if (order.deliveredContent) {
+        // Orders from before order_items only have the delivered text
+        for (const line of decryptContent(order.deliveredContent).split("\n")) {
+          if (line.trim() && !line.startsWith("===")) add(ACCOUNT_FORMATS.raw, line.trim());
+        }
+      }
+      if (accounts.length === 0) {
+        return res.status(404).json({ message: "Đơn hàng không có tài khoản nào" });
+      }
+
+      const fields = resolveExportFields(req.query.fields as string | undefined, Array.from(formats.values()));
+      const body = renderAccountExport(accounts, fields, type);
+      const contentTypes = { txt: "text/plain", csv: "text/csv", json: "application/json" };
+
+      res.setHeader("Content-Type", `${contentTypes[type]}; charset=utf-8`);
+      res.setHeader("Content-Disposition", `attachment; filename="${order.orderCode}.${type}"`);
+      res.setHeader("Cache-Control", "no-store");
+      res.send(type === "csv" ? `\uFEFF${body}` : body);
     } catch (error: any) {
+      if (error instanceof OrderError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post(
-    "/api/seller/register",
-    isAuthenticated,
-    upload.fields([
-      { name: "kycIdImage", maxCount: 1 },
-      { name: "kycSelfieImage", maxCount: 1 },
-    ]),
-    async (req: Request, res: Response) => {
-      try {
-        const userId = (req.user as any).id;
-        const { shopName, description, phone } = req.body;
-        const files = req.files as { [fieldname: string]: Express.Multer.File[] };
+  // Delivered accounts of a paid order, one entry per line, with what the buyer has flagged
+  app.get("/api/orders/:id/lines", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const order = await getEntitledOrder(req.params.id, (req.user as any).id);
+      const lines = await storage.getOrderLines(order.id);
+      res.json({
+        verifyUntil: order.verifyUntil,
+        canFlag: !!order.verifyUntil && order.verifyUntil > new Date(),
+        lines: lines.map(({ line, item }) => ({
+          id: line.id,
+          content: decryptContent(item.content),
+          accountFields: item.accountFields,
+          flaggedAt: line.flaggedAt,
+          flagReason: line.flagReason,
+          flagResolution: line.flagResolution,
+          replacementItemId: line.replacementItemId,
+          refundAmount: line.refundAmount,
+          isReplacement: line.isReplacement,
+          createdAt: line.createdAt,
+        })),
+      });
+    } catch (error: any) {
+      if (error instanceof OrderError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-        // Check if already a seller
-        const existingSeller = await storage.getSeller(userId);
-        if (existingSeller) {
-          return res.status(400).json({ message: "Already registered as seller" });
-        }
+  // Buyer: flag delivered lines as invalid within the order's verification window. They are
+  // replaced from the seller's stock right away, or refunded to the wallet if stock runs out.
+  app.post("/api/orders/:id/lines/flag", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const { orderItemIds, reason } = req.body;
+      if (!Array.isArray(orderItemIds) || orderItemIds.length === 0 || !orderItemIds.every((id) => typeof id === "string")) {
+        return res.status(400).json({ message: "Vui lòng chọn tài khoản bị lỗi" });
+      }
+      const flagReason = typeof reason === "string" ? reason.trim() : "";
+      if (!flagReason || flagReason.length > 500) {
+        return res.status(400).json({ message: "Vui lòng nhập lý do (tối đa 500 ký tự)" });
+      }
+
+      const result = await storage.flagOrderItems(req.params.id, userId, orderItemIds, flagReason);
+      const { order } = result;
+
+      const outcome = [
+        result.replaced > 0 ? `${result.replaced} tài khoản đã được thay thế tự động` : null,
+        result.refunded > 0 ? `${result.refunded} tài khoản đã được hoàn ${parseFloat(result.refundAmount).toLocaleString('vi-VN')}đ` : null,
+      ].filter(Boolean).join(", ");
+      await sendNotification(
+        order.sellerId,
+        "dispute_update",
+        "Người mua báo tài khoản lỗi",
+        `Đơn hàng #${order.orderCode}: ${outcome}. Lý do: ${flagReason}`,
+        "/seller"
+      );
+
+      res.json({ ...result, order: revealOrder(order, userId) });
+    } catch (error: any) {
+      if (error instanceof OrderError || error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ========== SOFTWARE DOWNLOADS ==========
+  // Files of a paid software order, with how often each was downloaded
+  app.get("/api/orders/:id/files", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const order = await getEntitledOrder(req.params.id, (req.user as any).id);
+      const productFiles = await storage.getProductFiles(order.productId);
+      const downloadCounts = await storage.getOrderDownloadCounts(order.id);
+      res.json(productFiles.map((file, index) => ({
+        id: file.id,
+        fileName: file.fileName,
+        fileSize: file.fileSize,
+        version: file.version,
+        changelog: file.changelog,
+        isLatest: index === 0,
+        createdAt: file.createdAt,
+        downloadCount: downloadCounts[file.id] ?? 0,
+      })));
+    } catch (error: any) {
+      if (error instanceof OrderError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Issues a signed URL valid for 5 minutes
+  app.get("/api/orders/:id/download/:fileId", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const order = await getEntitledOrder(req.params.id, userId);
+      const file = await getEntitledFile(order, req.params.fileId);
+
+      const { token, expiresAt } = signDownloadToken({ orderId: order.id, fileId: file.id, userId });
+      res.json({ url: `/api/downloads/${token}`, fileName: file.fileName, expiresAt });
+    } catch (error: any) {
+      if (error instanceof OrderError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Streams the file behind a signed URL (Range requests supported, so downloads can resume)
+  app.get("/api/downloads/:token", async (req: Request, res: Response) => {
+    try {
+      const grant = verifyDownloadToken(req.params.token);
+      if (!grant) {
+        return res.status(403).json({ message: "Liên kết tải xuống không hợp lệ hoặc đã hết hạn" });
+      }
+
+      // Entitlement is checked again: the order may have been refunded since the URL was issued
+      const order = await getEntitledOrder(grant.orderId, grant.userId);
+      const file = await getEntitledFile(order, grant.fileId);
+      const absolutePath = resolveUploadPath(uploadDir, file.filePath);
+      if (!absolutePath || !fs.existsSync(absolutePath)) {
+        return res.status(404).json({ message: "File không tồn tại" });
+      }
+
+      // A resumed download sends several ranged requests; count only the one starting at 0
+      const range = req.headers.range;
+      if (!range || /^bytes=0-/.test(range)) {
+        await storage.recordFileDownload({
+          orderId: order.id,
+          fileId: file.id,
+          userId: grant.userId,
+          ipAddress: req.ip,
+          userAgent: req.headers["user-agent"],
+        });
+      }
+
+      res.setHeader("Cache-Control", "private, no-store");
+      res.download(absolutePath, file.fileName, { acceptRanges: true }, (err) => {
+        if (err && !res.headersSent) {
+          res.status(500).json({ message: err.message });
+        }
+      });
+    } catch (error: any) {
+      if (error instanceof OrderError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ========== CART & CHECKOUT ==========
+  app.get("/api/cart", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      res.json(await priceCart(userId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/cart/items", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const { productId, quantity = 1 } = req.body;
+
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        return res.status(400).json({ message: "Số lượng không hợp lệ" });
+      }
+
+      const product = await storage.getProduct(productId);
+      if (!product || product.status !== "active") {
+        return res.status(404).json({ message: "Sản phẩm không tồn tại hoặc đã ngừng bán" });
+      }
+
+      const flashSale = await storage.getProductFlashSale(productId);
+      await storage.addCartItem(userId, productId, quantity, flashSale ? flashSale.salePrice : product.price);
+
+      res.status(201).json(await priceCart(userId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/cart/items/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const { quantity } = req.body;
+
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        return res.status(400).json({ message: "Số lượng không hợp lệ" });
+      }
+
+      const item = await storage.updateCartItemQuantity(userId, req.params.id, quantity);
+      if (!item) {
+        return res.status(404).json({ message: "Sản phẩm không có trong giỏ hàng" });
+      }
+
+      res.json(await priceCart(userId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/cart/items/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const removed = await storage.removeCartItem(userId, req.params.id);
+      if (!removed) {
+        return res.status(404).json({ message: "Sản phẩm không có trong giỏ hàng" });
+      }
+
+      res.json(await priceCart(userId));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/cart", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      await storage.clearCart(userId);
+      res.json({ message: "Đã xóa giỏ hàng" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Check out the whole cart: one payment, one child order per cart line
+  app.post("/api/cart/checkout", isAuthenticated, requireVerifiedEmail, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const { paymentMethod = "wallet", expectedTotal } = req.body;
+
+      if (!["wallet", "qr", "manual"].includes(paymentMethod)) {
+        return res.status(400).json({ message: "Phương thức thanh toán không hợp lệ" });
+      }
+
+      const cart = await priceCart(userId);
+      if (cart.items.length === 0) {
+        return res.status(400).json({ message: "Giỏ hàng trống" });
+      }
+      if (cart.hasIssues) {
+        return res.status(409).json({ message: "Một số sản phẩm trong giỏ hàng không còn đủ điều kiện mua", cart });
+      }
+      // The client sends the total it showed the buyer; refuse if prices moved since then
+      if (expectedTotal !== undefined && parseFloat(expectedTotal).toFixed(2) !== cart.total) {
+        return res.status(409).json({ message: "Giá sản phẩm đã thay đổi, vui lòng kiểm tra lại giỏ hàng", cart });
+      }
+
+      if (paymentMethod === "wallet") {
+        const buyer = await storage.getUser(userId);
+        if (!buyer || parseFloat(buyer.walletBalance) < parseFloat(cart.total)) {
+          return res.status(400).json({ message: "Số dư ví không đủ. Vui lòng nạp thêm tiền để mua hàng." });
+        }
+      }
+
+      let result;
+      try {
+        result = await storage.createCheckout(
+          userId,
+          cart.items.map((item) => ({
+            product: item.product,
+            quantity: item.quantity,
+            unitPrice: item.unitPrice,
+            flashSaleProductId: item.flashSaleProductId,
+          })),
+          paymentMethod
+        );
+      } catch (error) {
+        if (error instanceof OrderError || error instanceof LedgerError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+
+      const { checkout, orders } = result;
+      const ordersWithProduct = orders.map((order) => ({
+        ...order,
+        product: cart.items.find((item) => item.productId === order.productId)!.product,
+      }));
+
+      if (paymentMethod === "wallet") {
+        await notifyCheckoutPaid(checkout, ordersWithProduct);
+        for (const order of orders) {
+          await payReferralCommission(userId, order);
+        }
+      }
+
+      res.status(201).json({ ...checkout, orders: ordersWithProduct.map((order) => revealOrder(order, userId)) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/checkouts/:id", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const checkout = await storage.getCheckout(req.params.id);
+      if (!checkout) {
+        return res.status(404).json({ message: "Checkout not found" });
+      }
+      if (checkout.buyerId !== (req.user as any).id && (req.user as any).role !== "admin") {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const orders = await storage.getCheckoutOrders(checkout.id);
+      res.json({ ...checkout, orders: orders.map((order) => revealOrder(order, (req.user as any).id)) });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/checkouts/:id/payment-qr", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const checkout = await storage.getCheckout(req.params.id);
+      if (!checkout) {
+        return res.status(404).json({ message: "Checkout not found" });
+      }
+      if (checkout.buyerId !== (req.user as any).id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (checkout.status !== "pending_payment") {
+        return res.status(400).json({ message: "Checkout is not pending payment" });
+      }
+
+      await sendPaymentQr(req, res, checkout.totalAmount, checkout.checkoutCode);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/checkouts/:id/confirm-payment", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const checkout = await storage.getCheckout(req.params.id);
+      if (!checkout) {
+        return res.status(404).json({ message: "Checkout not found" });
+      }
+      if (checkout.buyerId !== (req.user as any).id) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+
+      const updated = await storage.markCheckoutPaymentSubmitted(req.params.id);
+      if (!updated) {
+        return res.status(400).json({ message: "Checkout is not pending payment" });
+      }
+
+      res.json({ message: "Payment confirmation submitted", status: "pending_confirmation" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/admin/checkouts/pending", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      const checkouts = await storage.getPendingCheckouts();
+      res.json(checkouts);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/checkouts/:id/confirm", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      let settled;
+      try {
+        settled = await confirmCheckoutPayment(req.params.id, (req.user as any).id);
+      } catch (error) {
+        if (error instanceof OrderError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        throw error;
+      }
+      if (!settled) {
+        return res.status(400).json({ message: "Checkout not found or already confirmed" });
+      }
+
+      res.json({ message: "Checkout confirmed" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/checkouts/:id/cancel", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      const cancelled = await storage.cancelCheckout(req.params.id);
+      if (!cancelled) {
+        return res.status(400).json({ message: "Checkout not found or already processed" });
+      }
+
+      await storage.createAdminLog({
+        adminId: (req.user as any).id,
+        action: "checkout_cancelled",
+        meta: { checkoutId: req.params.id },
+      });
+
+      res.json({ message: "Checkout cancelled" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // ========== SELLER ROUTES ==========
+  app.get("/api/seller/profile", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const seller = await storage.getSeller(userId);
+      
+      if (!seller) {
+        return res.status(404).json({ message: "Seller profile not found" });
+      }
+
+      res.json(seller);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post(
+    "/api/seller/register",
+    isAuthenticated,
+    upload.fields([
+      { name: "kycIdImage", maxCount: 1 },
+      { name: "kycSelfieImage", maxCount: 1 },
+    ]),
+    async (req: Request, res: Response) => {
+      try {
+        const userId = (req.user as any).id;
+        const { shopName, description, phone } = req.body;
+        const files = req.files as { [fieldname: string]: Express.Multer.File[] };
+
+        // Check if already a seller
+        const existingSeller = await storage.getSeller(userId);
+        if (existingSeller) {
+          return res.status(400).json({ message: "Already registered as seller" });
+        }
 
         // Update user role and phone
         await storage.upsertUser({
@@ -542,162 +1602,433 @@ export async function registerRoutes(
     "/api/seller/products",
     isAuthenticated,
     requireRole(["seller"]),
-    upload.fields([
-      { name: "accountsFile", maxCount: 1 },
-      { name: "softwareFile", maxCount: 1 },
-      { name: "thumbnail", maxCount: 1 },
-    ]),
+    upload.fields([
+      { name: "accountsFile", maxCount: 1 },
+      { name: "softwareFile", maxCount: 1 },
+      { name: "thumbnail", maxCount: 1 },
+    ]),
+    async (req: Request, res: Response) => {
+      const files = req.files as { [fieldname: string]: Express.Multer.File[] } | undefined;
+      // The software file and thumbnail are kept once the product exists; the accounts file
+      // (plaintext credentials) never is
+      let productCreated = false;
+      try {
+        const userId = (req.user as any).id;
+        const { title, description, category, platform, price, manualAccounts } = req.body;
+
+        // Check KYC status
+        const seller = await storage.getSeller(userId);
+        if (!seller || seller.kycStatus !== "approved") {
+          return res.status(403).json({ message: "KYC must be approved to create products" });
+        }
+
+        // Parse accounts from file or manual input; bad lines are reported, not fatal.
+        // With importId the accounts come from an already previewed upload instead.
+        let parsed: AccountParseResult | null = null;
+        let itemImport: ItemImport | null = null;
+        if (category === "account" && req.body.importId) {
+          const committable = await getCommittableImport(String(req.body.importId), userId);
+          if (typeof committable === "string") {
+            return res.status(400).json({ message: committable });
+          }
+          itemImport = committable;
+        } else if (category === "account") {
+          const format = resolveAccountFormat(req.body.accountFormat, platform);
+          if (typeof format === "string") {
+            return res.status(400).json({ message: format });
+          }
+          parsed = await parseAccountUpload(files?.accountsFile?.[0], manualAccounts, format);
+
+          // Validate: account products must have accounts
+          if (parsed.accounts.length === 0) {
+            return res.status(400).json({ 
+              message: "Sản phẩm tài khoản phải có ít nhất 1 tài khoản hợp lệ",
+              lineErrors: parsed.errors,
+            });
+          }
+        }
+
+        const warrantyPolicy = parseWarrantyPolicy(req.body);
+        if (typeof warrantyPolicy === "string") {
+          return res.status(400).json({ message: warrantyPolicy });
+        }
+        const verificationWindow = category === "account" ? parseVerificationWindow(req.body) : { verificationWindowMinutes: 0 };
+        if (typeof verificationWindow === "string") {
+          return res.status(400).json({ message: verificationWindow });
+        }
+
+        // Get thumbnail URL
+        const thumbnailUrl = files?.thumbnail?.[0] ? `/uploads/thumbnails/${files.thumbnail[0].filename}` : undefined;
+
+        // Create product
+        // Software products have unlimited stock (999999), account products = number of uploaded items
+        const productData = {
+          sellerId: userId,
+          title,
+          description,
+          category: category as any,
+          platform,
+          price,
+          stock: itemImport ? 0 : parsed ? parsed.accounts.length : 999999,
+          status: "pending_approval" as const,
+          thumbnailUrl,
+          ...warrantyPolicy,
+          ...verificationWindow,
+        };
+
+        // The product and its imported items are created together (or not at all)
+        if (itemImport) {
+          const committed = await storage.createProductFromImport(productData, itemImport.id);
+          productCreated = true;
+          return res.status(201).json({
+            ...committed.product,
+            importedCount: committed.items.length,
+            skippedCount: committed.skipped,
+            accountFormat: itemImport.accountFormat,
+          });
+        }
+
+        const product = await storage.createProduct(productData);
+        productCreated = true;
+
+        // Create product items for accounts
+        if (parsed) {
+          await storage.createProductItems(accountItems(product.id, parsed));
+        }
+
+        // Handle software file
+        if (category === "software" && files?.softwareFile?.[0]) {
+          await storage.createFile({
+            productId: product.id,
+            filePath: `/uploads/software/${files.softwareFile[0].filename}`,
+            fileName: files.softwareFile[0].originalname,
+            fileSize: files.softwareFile[0].size,
+            version: typeof req.body.version === "string" && req.body.version.trim() ? req.body.version.trim() : undefined,
+            changelog: req.body.changelog || null,
+          });
+        }
+
+        res.status(201).json(parsed
+          ? { ...product, importedCount: parsed.accounts.length, accountFormat: parsed.format.id, lineErrors: parsed.errors }
+          : product);
+      } catch (error: any) {
+        if (error instanceof OrderError) {
+          return res.status(error.status).json({ message: error.message });
+        }
+        res.status(500).json({ message: error.message });
+      } finally {
+        const discarded = productCreated
+          ? files?.accountsFile ?? []
+          : Object.values(files ?? {}).flat();
+        for (const file of discarded) {
+          fs.unlink(file.path, () => {});
+        }
+      }
+    }
+  );
+
+  app.patch(
+    "/api/seller/products/:id/restock",
+    isAuthenticated,
+    requireRole(["seller"]),
+    upload.single("accountsFile"),
+    async (req: Request, res: Response) => {
+      try {
+        const userId = (req.user as any).id;
+        const { manualAccounts } = req.body;
+        
+        const product = await storage.getProduct(req.params.id);
+        if (!product || product.sellerId !== userId) {
+          return res.status(403).json({ message: "Not authorized" });
+        }
+
+        if (product.category === "account") {
+          // For account products, need to upload accounts
+          if (!req.file && !manualAccounts) {
+            return res.status(400).json({ message: "Phải upload file hoặc nhập tài khoản" });
+          }
+          const format = resolveAccountFormat(req.body.accountFormat, product.platform);
+          if (typeof format === "string") {
+            return res.status(400).json({ message: format });
+          }
+
+          // Valid lines are added; the rest come back as per-line errors
+          const parsed = await parseAccountUpload(req.file, manualAccounts, format);
+          if (parsed.accounts.length === 0) {
+            return res.status(400).json({ message: "Không có tài khoản hợp lệ nào", lineErrors: parsed.errors });
+          }
+          await storage.createProductItems(accountItems(product.id, parsed));
+
+          // Update product stock
+          const updated = await storage.syncProductStock(req.params.id);
+          if (product.stock === 0 && updated.stock > 0) {
+            await announceRestock(updated);
+          }
+          res.json({ ...updated, importedCount: parsed.accounts.length, accountFormat: format.id, lineErrors: parsed.errors });
+        } else {
+          res.status(400).json({ message: "Chỉ sản phẩm tài khoản có thể thêm hàng" });
+        }
+      } catch (error: any) {
+        res.status(500).json({ message: error.message });
+      } finally {
+        // The upload holds plaintext credentials; never leave it on disk, whatever the outcome
+        if (req.file) fs.unlink(req.file.path, () => {});
+      }
+    }
+  );
+
+  // Seller: two-step account import. The upload is parsed and previewed (valid, duplicate and
+  // malformed counts with per-line errors); committing adds only the valid lines, either to an
+  // existing product or, via POST /api/seller/products with importId, to a new one.
+  app.post(
+    "/api/seller/item-imports",
+    isAuthenticated,
+    requireRole(["seller"]),
+    upload.single("accountsFile"),
+    async (req: Request, res: Response) => {
+      try {
+        const userId = (req.user as any).id;
+        const { productId, platform, manualAccounts } = req.body;
+
+        let target: Product | undefined;
+        if (productId) {
+          target = await storage.getProduct(String(productId));
+          if (!target || target.sellerId !== userId) {
+            return res.status(403).json({ message: "Not authorized" });
+          }
+          if (target.category !== "account") {
+            return res.status(400).json({ message: "Chỉ sản phẩm tài khoản có thể thêm hàng" });
+          }
+        }
+        if (!req.file && !manualAccounts) {
+          return res.status(400).json({ message: "Phải upload file hoặc nhập tài khoản" });
+        }
+
+        const format = resolveAccountFormat(req.body.accountFormat, target?.platform ?? platform);
+        if (typeof format === "string") {
+          return res.status(400).json({ message: format });
+        }
+
+        const parsed = await parseAccountUpload(req.file, manualAccounts, format);
+        const itemImport = await stageAccountImport(userId, target?.id ?? null, parsed);
+        res.status(201).json(importPreview(itemImport));
+      } catch (error: any) {
+        res.status(500).json({ message: error.message });
+      } finally {
+        // The upload holds plaintext credentials; never leave it on disk, whatever the outcome
+        if (req.file) fs.unlink(req.file.path, () => {});
+      }
+    }
+  );
+
+  app.get("/api/seller/item-imports", isAuthenticated, requireRole(["seller"]), async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const imports = await storage.getSellerItemImports(userId);
+      res.json(imports.map(importPreview));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.get("/api/seller/item-imports/:id", isAuthenticated, requireRole(["seller"]), async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const itemImport = await storage.getItemImport(req.params.id);
+      if (!itemImport || itemImport.sellerId !== userId) {
+        return res.status(404).json({ message: "Không tìm thấy lượt nhập" });
+      }
+      res.json(importPreview(itemImport));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/seller/item-imports/:id/commit", isAuthenticated, requireRole(["seller"]), async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const itemImport = await getCommittableImport(req.params.id, userId);
+      if (typeof itemImport === "string") {
+        return res.status(400).json({ message: itemImport });
+      }
+
+      const productId = req.body.productId ? String(req.body.productId) : itemImport.productId;
+      if (!productId) {
+        return res.status(400).json({ message: "Vui lòng chọn sản phẩm để nhập tài khoản" });
+      }
+      const product = await storage.getProduct(productId);
+      if (!product || product.sellerId !== userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      if (product.category !== "account") {
+        return res.status(400).json({ message: "Chỉ sản phẩm tài khoản có thể thêm hàng" });
+      }
+
+      const committed = await storage.commitItemImport(itemImport.id, product.id);
+      if (!committed) {
+        return res.status(409).json({ message: "Lượt nhập đã hết hạn hoặc đã được xử lý, vui lòng tải lên lại" });
+      }
+
+      const updated = (await storage.getProduct(product.id))!;
+      if (product.stock === 0 && updated.stock > 0) {
+        await announceRestock(updated);
+      }
+      res.json({
+        ...updated,
+        importedCount: committed.items.length,
+        skippedCount: committed.skipped,
+        accountFormat: itemImport.accountFormat,
+        itemImport: importPreview(committed.itemImport),
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/seller/item-imports/:id", isAuthenticated, requireRole(["seller"]), async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const cancelled = await storage.cancelItemImport(req.params.id, userId);
+      if (!cancelled) {
+        return res.status(404).json({ message: "Không tìm thấy lượt nhập đang chờ" });
+      }
+      res.json(importPreview(cancelled));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Seller: publish a new version of a software product. Earlier versions stay available;
+  // everyone who bought the product is notified and can download it under their order
+  app.post(
+    "/api/seller/products/:id/versions",
+    isAuthenticated,
+    requireRole(["seller"]),
+    upload.single("softwareFile"),
     async (req: Request, res: Response) => {
+      // The upload is only kept once it is recorded as a version; every other exit deletes it
+      let fileSaved = false;
       try {
         const userId = (req.user as any).id;
-        const { title, description, category, platform, price, manualAccounts } = req.body;
-        const files = req.files as { [fieldname: string]: Express.Multer.File[] };
+        const { changelog } = req.body;
+        const version = typeof req.body.version === "string" ? req.body.version.trim() : "";
 
-        // Check KYC status
-        const seller = await storage.getSeller(userId);
-        if (!seller || seller.kycStatus !== "approved") {
-          return res.status(403).json({ message: "KYC must be approved to create products" });
+        const product = await storage.getProduct(req.params.id);
+        if (!product || product.sellerId !== userId) {
+          return res.status(403).json({ message: "Not authorized" });
         }
-
-        let accounts: string[] = [];
-
-        // Parse accounts from file or manual input
-        if (category === "account") {
-          if (files?.accountsFile?.[0]) {
-            const content = fs.readFileSync(files.accountsFile[0].path, "utf-8");
-            accounts = content.split("\n").filter((line) => line.trim());
-          } else if (manualAccounts) {
-            accounts = manualAccounts.split("\n").filter((line: string) => line.trim());
-          }
-
-          // Check for duplicates
-          for (const account of accounts) {
-            const uid = hashUid(account);
-            if (uid) {
-              const isDuplicate = await storage.checkDuplicateUid(uid);
-              if (isDuplicate) {
-                return res.status(400).json({ 
-                  message: `Duplicate account detected: ${account.substring(0, 20)}...` 
-                });
-              }
-            }
-          }
+        if (product.category !== "software") {
+          return res.status(400).json({ message: "Chỉ sản phẩm phần mềm mới có phiên bản" });
         }
-
-        // Validate: account products must have accounts
-        if (category === "account" && accounts.length === 0) {
-          return res.status(400).json({ 
-            message: "Sản phẩm tài khoản phải có ít nhất 1 tài khoản" 
-          });
+        if (!req.file) {
+          return res.status(400).json({ message: "Vui lòng tải lên file phiên bản mới" });
+        }
+        if (!/^[0-9A-Za-z.+-]{1,32}$/.test(version)) {
+          return res.status(400).json({ message: "Số phiên bản không hợp lệ (VD: 1.2.0)" });
         }
 
-        // Get thumbnail URL
-        const thumbnailUrl = files?.thumbnail?.[0] ? `/uploads/thumbnails/${files.thumbnail[0].filename}` : undefined;
-
-        // Create product
-        // Software products have unlimited stock (999999), account products = number of uploaded items
-        const product = await storage.createProduct({
-          sellerId: userId,
-          title,
-          description,
-          category: category as any,
-          platform,
-          price,
-          stock: category === "account" ? accounts.length : 999999,
-          status: "pending_approval",
-          thumbnailUrl,
-        });
-
-        // Create product items for accounts
-        if (category === "account" && accounts.length > 0) {
-          const items = accounts.map((content) => ({
-            productId: product.id,
-            content,
-            uidHash: hashUid(content),
-            status: "available" as const,
-          }));
-          await storage.createProductItems(items);
+        const existing = await storage.getProductFiles(product.id);
+        if (existing.some((file) => file.version === version)) {
+          return res.status(400).json({ message: `Phiên bản ${version} đã tồn tại` });
         }
 
-        // Handle software file
-        if (category === "software" && files?.softwareFile?.[0]) {
-          await storage.createFile({
-            productId: product.id,
-            filePath: `/uploads/software/${files.softwareFile[0].filename}`,
-            fileName: files.softwareFile[0].originalname,
-            fileSize: files.softwareFile[0].size,
-          });
+        const file = await storage.createFile({
+          productId: product.id,
+          filePath: `/uploads/software/${req.file.filename}`,
+          fileName: req.file.originalname,
+          fileSize: req.file.size,
+          version,
+          changelog: changelog || null,
+        });
+        fileSaved = true;
+
+        const buyerIds = await storage.getProductBuyerIds(product.id);
+        for (const buyerId of buyerIds) {
+          await sendNotification(
+            buyerId,
+            "software_update",
+            `Có bản cập nhật mới: ${product.title}`,
+            `Phiên bản ${version} đã được phát hành.${changelog ? ` ${String(changelog).slice(0, 200)}` : ""}`,
+            "/dashboard",
+            { productId: product.id, fileId: file.id, version }
+          );
         }
 
-        res.status(201).json(product);
+        res.status(201).json({ ...file, notifiedBuyers: buyerIds.length });
       } catch (error: any) {
         res.status(500).json({ message: error.message });
+      } finally {
+        if (!fileSaved && req.file) fs.unlink(req.file.path, () => {});
       }
     }
   );
 
-  app.patch(
-    "/api/seller/products/:id/restock",
-    isAuthenticated,
-    requireRole(["seller"]),
-    upload.single("accountsFile"),
-    async (req: Request, res: Response) => {
-      try {
-        const userId = (req.user as any).id;
-        const { manualAccounts } = req.body;
-        
-        const product = await storage.getProduct(req.params.id);
-        if (!product || product.sellerId !== userId) {
-          return res.status(403).json({ message: "Not authorized" });
-        }
+  // Seller: change the price of one of my products
+  app.patch("/api/seller/products/:id/price", isAuthenticated, requireRole(["seller"]), async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const product = await storage.getProduct(req.params.id);
+      if (!product || product.sellerId !== userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
 
-        if (product.category === "account") {
-          // For account products, need to upload accounts
-          let accounts: string[] = [];
-          
-          if (req.file) {
-            const content = fs.readFileSync(req.file.path, "utf-8");
-            accounts = content.split("\n").filter((line) => line.trim());
-          } else if (manualAccounts) {
-            accounts = manualAccounts.split("\n").filter((line: string) => line.trim());
-          } else {
-            return res.status(400).json({ message: "Phải upload file hoặc nhập tài khoản" });
-          }
+      const price = Number(req.body.price);
+      if (!Number.isFinite(price) || price <= 0) {
+        return res.status(400).json({ message: "Giá không hợp lệ" });
+      }
 
-          // Check for duplicates
-          for (const account of accounts) {
-            const uid = hashUid(account);
-            if (uid) {
-              const isDuplicate = await storage.checkDuplicateUid(uid);
-              if (isDuplicate) {
-                return res.status(400).json({ 
-                  message: `Tài khoản trùng: ${account.substring(0, 20)}...` 
-                });
-              }
-            }
-          }
+      const updated = await storage.updateProductAdmin(product.id, { price: price.toFixed(2) });
+      await announcePriceDrop(updated, product.price, updated.price);
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
-          // Create product items for new accounts
-          const items = accounts.map((content) => ({
-            productId: product.id,
-            content,
-            uidHash: hashUid(content),
-            status: "available" as const,
-          }));
-          await storage.createProductItems(items);
+  // Seller: set the warranty policy; applies to orders paid from now on
+  app.patch("/api/seller/products/:id/warranty", isAuthenticated, requireRole(["seller"]), async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const product = await storage.getProduct(req.params.id);
+      if (!product || product.sellerId !== userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
 
-          // Update product stock
-          const newStock = product.stock + accounts.length;
-          const updated = await storage.updateProductStock(req.params.id, newStock);
-          res.json(updated);
-        } else {
-          res.status(400).json({ message: "Chỉ sản phẩm tài khoản có thể thêm hàng" });
-        }
-      } catch (error: any) {
-        res.status(500).json({ message: error.message });
+      const warrantyPolicy = parseWarrantyPolicy(req.body);
+      if (typeof warrantyPolicy === "string") {
+        return res.status(400).json({ message: warrantyPolicy });
       }
+
+      const updated = await storage.updateProductAdmin(product.id, warrantyPolicy);
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
     }
-  );
+  });
+
+  // Seller: set the buyer verification window; applies to orders paid from now on
+  app.patch("/api/seller/products/:id/verification-window", isAuthenticated, requireRole(["seller"]), async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const product = await storage.getProduct(req.params.id);
+      if (!product || product.sellerId !== userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      if (product.category !== "account") {
+        return res.status(400).json({ message: "Chỉ sản phẩm tài khoản có thời gian kiểm tra" });
+      }
+
+      const verificationWindow = parseVerificationWindow(req.body);
+      if (typeof verificationWindow === "string") {
+        return res.status(400).json({ message: verificationWindow });
+      }
+
+      const updated = await storage.updateProductAdmin(product.id, verificationWindow);
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
 
   // Get product items (inventory) for a seller's product
   app.get("/api/seller/products/:id/items", isAuthenticated, requireRole(["seller", "admin"]), async (req: Request, res: Response) => {
@@ -715,7 +2046,60 @@ export async function registerRoutes(
       }
 
       const items = await storage.getProductItems(req.params.id);
-      res.json(items);
+      res.json(items.map((item) => revealItem(item, product, userId)));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Account health: live rate, live/dead/unchecked counts and recent check runs
+  app.get("/api/seller/products/:id/item-checks", isAuthenticated, requireRole(["seller", "admin"]), async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const product = await storage.getProduct(req.params.id);
+      if (!product) {
+        return res.status(404).json({ message: "Sản phẩm không tồn tại" });
+      }
+      if (product.sellerId !== userId && (req.user as any).role !== "admin") {
+        return res.status(403).json({ message: "Không có quyền truy cập" });
+      }
+
+      const [summary, runs, checker] = await Promise.all([
+        storage.getItemHealthSummary(product.id),
+        storage.getItemCheckRuns(product.id),
+        resolveItemChecker(product.platform),
+      ]);
+      res.json({
+        liveRate: product.liveRate,
+        itemsCheckedAt: product.itemsCheckedAt,
+        checker: checker ? { id: checker.id, label: checker.label } : null,
+        ...summary,
+        runs,
+      });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Seller: check the product's unsold accounts now. The run is queued and picked up by the
+  // item-health-check job, which is kicked off right away instead of waiting for its schedule.
+  app.post("/api/seller/products/:id/item-checks", isAuthenticated, requireRole(["seller"]), async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const product = await storage.getProduct(req.params.id);
+      if (!product || product.sellerId !== userId) {
+        return res.status(403).json({ message: "Not authorized" });
+      }
+      if (product.category !== "account") {
+        return res.status(400).json({ message: "Chỉ sản phẩm tài khoản có thể kiểm tra" });
+      }
+      if (!(await resolveItemChecker(product.platform))) {
+        return res.status(400).json({ message: "Chưa có công cụ kiểm tra cho nền tảng này" });
+      }
+
+      const run = await storage.queueItemCheckRun(product.id, userId);
+      jobRunner.run("item-health-check", true).catch((err) => console.error("Item health check failed:", err));
+      res.status(202).json(run);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -742,16 +2126,15 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Item không tồn tại" });
       }
 
-      // Only allow deletion of available items
-      if (item.status !== "available") {
+      // Only allow deletion of unsold items (available, or found dead by a health check)
+      if (item.status !== "available" && item.status !== "dead") {
         return res.status(400).json({ message: "Chỉ có thể xóa item còn trong kho (available)" });
       }
 
       await storage.deleteProductItem(itemId);
       
       // Update product stock
-      const newStock = Math.max(0, product.stock - 1);
-      await storage.updateProductStock(productId, newStock);
+      await storage.syncProductStock(productId);
 
       res.json({ message: "Xóa thành công" });
     } catch (error: any) {
@@ -785,13 +2168,18 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Item không tồn tại" });
       }
 
-      // Only allow editing of available items
-      if (item.status !== "available") {
+      // Only allow editing of unsold items; fixing a dead one puts it back on sale
+      if (item.status !== "available" && item.status !== "dead") {
         return res.status(400).json({ message: "Chỉ có thể sửa item còn trong kho (available)" });
       }
 
+      const parsed = parseAccountLine(getAccountFormat(item.accountFormat) ?? ACCOUNT_FORMATS.raw, content.trim());
+      if ("error" in parsed) {
+        return res.status(400).json({ message: parsed.error });
+      }
+
       // Check for duplicate content
-      const newUidHash = hashUid(content.trim());
+      const newUidHash = hashUid(parsed.content);
       if (newUidHash && item.uidHash !== newUidHash) {
         const isDuplicate = await storage.checkDuplicateUid(newUidHash);
         if (isDuplicate) {
@@ -799,8 +2187,11 @@ export async function registerRoutes(
         }
       }
 
-      const updated = await storage.updateProductItemContent(itemId, content.trim());
-      res.json(updated);
+      const updated = await storage.updateProductItemContent(itemId, parsed.content, publicAccountFields(parsed.fields));
+      if (item.status === "dead") {
+        await storage.syncProductStock(productId);
+      }
+      res.json(revealItem(updated, product, userId));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -830,15 +2221,14 @@ export async function registerRoutes(
       let deletedCount = 0;
       for (const itemId of itemIds) {
         const item = await storage.getProductItem(itemId);
-        if (item && item.productId === productId && item.status === "available") {
+        if (item && item.productId === productId && (item.status === "available" || item.status === "dead")) {
           await storage.deleteProductItem(itemId);
           deletedCount++;
         }
       }
 
       // Update product stock
-      const newStock = Math.max(0, product.stock - deletedCount);
-      await storage.updateProductStock(productId, newStock);
+      await storage.syncProductStock(productId);
 
       res.json({ message: `Đã xóa ${deletedCount} item`, deletedCount });
     } catch (error: any) {
@@ -850,7 +2240,7 @@ export async function registerRoutes(
     try {
       const userId = (req.user as any).id;
       const orders = await storage.getSellerOrders(userId);
-      res.json(orders);
+      res.json(orders.map((order) => revealOrder(order, userId)));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -890,7 +2280,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/seller/withdrawals", isAuthenticated, requireRole(["seller"]), async (req: Request, res: Response) => {
+  app.post("/api/seller/withdrawals", isAuthenticated, requireRole(["seller"]), requireTwoFactorCode, async (req: Request, res: Response) => {
     try {
       const userId = (req.user as any).id;
       const { amount, bankName, accountNumber, accountName } = req.body;
@@ -1080,6 +2470,7 @@ export async function registerRoutes(
   app.patch("/api/admin/products/:id", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
     try {
       const { title, description, price, status, category, platform } = req.body;
+      const before = await storage.getProduct(req.params.id);
       const product = await storage.updateProductAdmin(req.params.id, {
         title,
         description,
@@ -1094,6 +2485,10 @@ export async function registerRoutes(
         action: "product_edited",
         meta: { productId: req.params.id, changes: req.body },
       });
+
+      if (before && price !== undefined) {
+        await announcePriceDrop(product, before.price, product.price);
+      }
       
       res.json(product);
     } catch (error: any) {
@@ -1190,7 +2585,7 @@ export async function registerRoutes(
   app.get("/api/admin/orders/pending", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
     try {
       const orders = await storage.getPendingOrders();
-      res.json(orders);
+      res.json(orders.map((order) => revealOrder(order, (req.user as any).id)));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -1199,7 +2594,7 @@ export async function registerRoutes(
   app.get("/api/admin/orders/all", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
     try {
       const allOrders = await storage.getAllOrders();
-      res.json(allOrders);
+      res.json(allOrders.map((order) => revealOrder(order, (req.user as any).id)));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -1212,114 +2607,21 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Order not found" });
       }
 
-      // Update order status to paid
-      await storage.updateOrderStatus(req.params.id, "paid");
-
-      // Mark product item as sold and deliver content (for account products)
-      if (order.productItemId && order.productItem) {
-        await storage.updateProductItemStatus(order.productItemId, "sold");
-        await storage.updateOrderDeliveredContent(req.params.id, order.productItem.content);
-      }
-
-      // Update product stock (only for account products, software has unlimited stock)
-      if (order.product.category === "account") {
-        await storage.updateProductStock(order.productId, order.product.stock - order.quantity);
+      if (order.status === "paid" || order.status === "refunded") {
+        return res.status(400).json({ message: "Order already confirmed" });
       }
 
-      // Calculate 5% platform commission
-      const commissionRate = 0.05;
-      const commissionAmount = (parseFloat(order.price) * commissionRate).toFixed(2);
-      const sellerAmount = (parseFloat(order.price) * (1 - commissionRate)).toFixed(2);
-
-      // Create pending earning instead of immediate credit (3 days hold) - with 5% commission deducted
-      const releaseDate = new Date();
-      releaseDate.setDate(releaseDate.getDate() + 3);
-      
-      await storage.createPendingEarning({
-        sellerId: order.sellerId,
-        orderId: order.id,
-        amount: sellerAmount, // Seller receives 95% after 5% platform fee
-        status: "pending",
-        releaseAt: releaseDate,
-      });
-
-      // Log platform commission for tracking
-      await storage.createAdminLog({
-        adminId: (req.user as any).id,
-        action: "platform_commission",
-        meta: { 
-          orderId: req.params.id,
-          orderPrice: order.price,
-          commissionAmount,
-          sellerAmount,
-        },
-      });
-
-      await storage.createAdminLog({
-        adminId: (req.user as any).id,
-        action: "order_confirmed",
-        meta: { orderId: req.params.id },
-      });
-
-      await sendNotification(
-        order.buyerId,
-        "order_paid",
-        "Đơn hàng đã thanh toán thành công",
-        `Đơn hàng #${order.orderCode} cho sản phẩm "${order.product.title}" đã được xác nhận. Kiểm tra nội dung đã giao.`,
-        "/dashboard",
-        { orderId: order.id, orderCode: order.orderCode }
-      );
-      
-      await sendNotification(
-        order.sellerId,
-        "new_order",
-        "Bạn có đơn hàng mới đã thanh toán",
-        `Đơn hàng #${order.orderCode} cho sản phẩm "${order.product.title}" đã được thanh toán. Tiền sẽ được chuyển vào ví sau 3 ngày.`,
-        "/seller",
-        { orderId: order.id, orderCode: order.orderCode }
-      );
-
-      // Check if buyer was referred and calculate referral commission
+      let settled;
       try {
-        const referral = await storage.getReferralByReferredId(order.buyerId);
-        if (referral && referral.isActive) {
-          // Default to 5% if commissionRate is not set
-          const rate = parseFloat(referral.commissionRate || "5.00");
-          const referralCommissionRate = isNaN(rate) ? 0.05 : rate / 100;
-          const referralCommission = (parseFloat(order.price) * referralCommissionRate).toFixed(2);
-          
-          if (parseFloat(referralCommission) > 0) {
-            const referrer = await storage.getUser(referral.referrerId);
-            if (referrer) {
-              // Credit referrer's wallet using SQL to maintain numeric consistency
-              await storage.creditUserWallet(referral.referrerId, referralCommission);
-              
-              await storage.createWalletTransaction({
-                userId: referral.referrerId,
-                amount: referralCommission,
-                type: "credit",
-                reason: `Hoa hồng giới thiệu từ đơn hàng #${order.orderCode}`,
-                relatedOrderId: order.id,
-              });
-              
-              await storage.updateReferralEarnings(referral.id, referralCommission);
-              await storage.updateReferrerTotalEarnings(referral.referrerId, referralCommission);
-              
-              await sendNotification(
-                referral.referrerId,
-                "referral_bonus",
-                "Bạn nhận được hoa hồng giới thiệu!",
-                `Bạn nhận được ${parseInt(referralCommission).toLocaleString("vi-VN")}đ hoa hồng từ đơn hàng của người bạn giới thiệu.`,
-                "/referral",
-                { amount: referralCommission, orderId: order.id }
-              );
-              
-              console.log(`Referral commission paid: ${referralCommission} to ${referral.referrerId}`);
-            }
-          }
+        settled = await confirmOrderPayment(order, (req.user as any).id);
+      } catch (error) {
+        if (error instanceof OrderError) {
+          return res.status(error.status).json({ message: error.message });
         }
-      } catch (refError) {
-        console.error("Error processing referral commission:", refError);
+        throw error;
+      }
+      if (!settled) {
+        return res.status(400).json({ message: "Order already confirmed" });
       }
 
       res.json({ message: "Order confirmed" });
@@ -1335,13 +2637,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Order not found" });
       }
 
-      // Update order status
-      await storage.updateOrderStatus(req.params.id, "cancelled");
-
-      // Release reserved item
-      if (order.productItemId) {
-        await storage.updateProductItemStatus(order.productItemId, "available");
-      }
+      // Cancel and release every item (and unpaid flash sale slot) still held for this order
+      await storage.cancelOrder(req.params.id);
 
       await storage.createAdminLog({
         adminId: (req.user as any).id,
@@ -1405,23 +2702,12 @@ export async function registerRoutes(
         return res.status(400).json({ message: "Withdrawal must be approved first" });
       }
 
-      // Deduct from seller's balance
-      const seller = await storage.getUser(withdrawal.sellerId);
-      if (seller) {
-        const newBalance = (parseFloat(seller.walletBalance) - parseFloat(withdrawal.amount)).toFixed(2);
-        await storage.updateUserBalance(withdrawal.sellerId, newBalance);
-
-        // Create wallet transaction
-        await storage.createWalletTransaction({
-          userId: withdrawal.sellerId,
-          type: "debit",
-          amount: withdrawal.amount,
-          reason: "Withdrawal completed",
-        });
+      // Deduct from seller's balance and mark completed together
+      const completed = await storage.completeWithdrawal(req.params.id);
+      if (!completed) {
+        return res.status(400).json({ message: "Withdrawal must be approved first" });
       }
 
-      await storage.updateWithdrawalStatus(req.params.id, "completed");
-
       await storage.createAdminLog({
         adminId: (req.user as any).id,
         action: "withdrawal_completed",
@@ -1439,7 +2725,7 @@ export async function registerRoutes(
 
       res.json({ message: "Withdrawal completed" });
     } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      res.status(error instanceof LedgerError ? error.status : 500).json({ message: error.message });
     }
   });
 
@@ -1500,8 +2786,11 @@ export async function registerRoutes(
   // Admin: Cleanup expired reservations and pending orders
   app.post("/api/admin/cleanup", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
     try {
-      const releasedItems = await storage.cleanupExpiredReservations();
-      const cancelledOrders = await storage.cancelExpiredPendingOrders();
+      // Same jobs the scheduler runs; a job already running elsewhere is skipped (null)
+      const reservationRun = await jobRunner.run("reservation-cleanup", true);
+      const expiryRun = await jobRunner.run("pending-order-expiry", true);
+      const releasedItems = reservationRun?.result?.releasedItems ?? 0;
+      const cancelledOrders = expiryRun?.result?.cancelledOrders ?? 0;
       
       await storage.createAdminLog({
         adminId: (req.user as any).id,
@@ -1519,6 +2808,78 @@ export async function registerRoutes(
     }
   });
 
+  // Scheduled jobs: schedule, last run and lock state
+  app.get("/api/admin/jobs", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      res.json(await jobRunner.list());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.patch("/api/admin/jobs/:name", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      const { intervalSeconds, isEnabled } = req.body;
+      const data: { intervalSeconds?: number; isEnabled?: boolean } = {};
+      if (intervalSeconds !== undefined) {
+        if (!Number.isInteger(intervalSeconds) || intervalSeconds < 30) {
+          return res.status(400).json({ message: "Chu kỳ chạy phải là số giây nguyên, tối thiểu 30" });
+        }
+        data.intervalSeconds = intervalSeconds;
+      }
+      if (isEnabled !== undefined) {
+        data.isEnabled = Boolean(isEnabled);
+      }
+      if (Object.keys(data).length === 0) {
+        return res.status(400).json({ message: "Không có thay đổi" });
+      }
+
+      const job = await jobRunner.update(req.params.name, data);
+      await storage.createAdminLog({
+        adminId: (req.user as any).id,
+        action: "update_job",
+        meta: { job: job.name, ...data },
+      });
+      res.json(job);
+    } catch (error: any) {
+      if (error instanceof JobError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Account checkers that can be assigned to platforms in the item_checkers setting
+  app.get("/api/admin/item-checkers", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      res.json(listItemCheckers());
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Run a job now, regardless of its schedule
+  app.post("/api/admin/jobs/:name/run", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      const run = await jobRunner.run(req.params.name, true);
+      if (!run) {
+        return res.status(409).json({ message: "Tác vụ đang chạy, vui lòng thử lại sau" });
+      }
+
+      await storage.createAdminLog({
+        adminId: (req.user as any).id,
+        action: "run_job",
+        meta: { job: run.name, status: run.status, result: run.result, error: run.error },
+      });
+      res.json(run);
+    } catch (error: any) {
+      if (error instanceof JobError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // ========== ADMIN SELLERS MANAGEMENT ==========
   app.get("/api/admin/sellers", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
     try {
@@ -1570,12 +2931,8 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Seller not found" });
       }
 
-      const newBalance = (parseFloat(user.walletBalance) + parseFloat(amount)).toFixed(2);
-      await storage.updateUserBalance(req.params.id, newBalance);
-
-      await storage.createWalletTransaction({
+      await ledger.credit({
         userId: req.params.id,
-        type: "credit",
         amount,
         reason: reason || "Admin bonus",
       });
@@ -1588,7 +2945,7 @@ export async function registerRoutes(
 
       res.json({ message: "Bonus added" });
     } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      res.status(error instanceof LedgerError ? error.status : 500).json({ message: error.message });
     }
   });
 
@@ -1613,24 +2970,36 @@ export async function registerRoutes(
       if (phone !== undefined) updates.phone = phone;
       if (role) updates.role = role;
       if (status) updates.status = status;
-      if (walletBalance !== undefined) updates.walletBalance = walletBalance;
       
       if (newPassword && newPassword.length > 0) {
         const bcrypt = await import("bcryptjs");
         updates.password = await bcrypt.hash(newPassword, 10);
       }
       
+      // Balance edits are booked as a ledger adjustment rather than overwritten in place
+      if (walletBalance !== undefined) {
+        await ledger.adjustTo(req.params.id, walletBalance, "Admin điều chỉnh số dư");
+      }
+      
       const user = await storage.updateUser(req.params.id, updates);
+
+      // A ban or a password set by the admin ends the user's existing sessions
+      if (updates.status === "banned" || updates.password) {
+        await forceLogout(req.params.id);
+      }
       
       await storage.createAdminLog({
         adminId: (req.session as any).userId,
         action: "user_updated",
-        meta: { userId: req.params.id, updatedFields: Object.keys(updates) },
+        meta: {
+          userId: req.params.id,
+          updatedFields: [...Object.keys(updates), ...(walletBalance !== undefined ? ["walletBalance"] : [])],
+        },
       });
 
       res.json(user);
     } catch (error: any) {
-      res.status(500).json({ message: error.message });
+      res.status(error instanceof LedgerError ? error.status : 500).json({ message: error.message });
     }
   });
 
@@ -1661,6 +3030,7 @@ export async function registerRoutes(
   app.post("/api/admin/users/:id/ban", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
     try {
       const user = await storage.updateUserStatus(req.params.id, "banned");
+      await forceLogout(req.params.id);
       
       await storage.createAdminLog({
         adminId: (req.session as any).userId,
@@ -1674,6 +3044,22 @@ export async function registerRoutes(
     }
   });
 
+  app.post("/api/admin/users/:id/logout", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      const revoked = await forceLogout(req.params.id);
+
+      await storage.createAdminLog({
+        adminId: (req.session as any).userId,
+        action: "user_force_logout",
+        meta: { userId: req.params.id, revoked },
+      });
+
+      res.json({ message: "Đã đăng xuất người dùng khỏi mọi thiết bị", revoked });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   app.post("/api/admin/users/:id/unban", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
     try {
       const user = await storage.updateUserStatus(req.params.id, "active");
@@ -1701,18 +3087,17 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/deposits", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/deposits", isAuthenticated, rateLimit("deposits"), async (req: Request, res: Response) => {
     try {
       const userId = (req.session as any).userId;
-      const { amount, transactionCode } = req.body;
+      const { amount } = req.body;
       
       if (!amount || parseFloat(amount) < 10000) {
         return res.status(400).json({ message: "Số tiền nạp tối thiểu là 10,000 VND" });
       }
       
-      if (!transactionCode) {
-        return res.status(400).json({ message: "Thiếu mã giao dịch" });
-      }
+      // Without a code from the client, issue one to use as the transfer memo (see /payment-qr)
+      const transactionCode = req.body.transactionCode || `NAP-${crypto.randomBytes(4).toString("hex").toUpperCase()}`;
       
       const deposit = await storage.createDeposit({
         userId,
@@ -1727,6 +3112,25 @@ export async function registerRoutes(
     }
   });
 
+  app.get("/api/deposits/:id/payment-qr", isAuthenticated, async (req: Request, res: Response) => {
+    try {
+      const deposit = await storage.getDeposit(req.params.id);
+      if (!deposit) {
+        return res.status(404).json({ message: "Deposit not found" });
+      }
+      if (deposit.userId !== (req.session as any).userId) {
+        return res.status(403).json({ message: "Forbidden" });
+      }
+      if (deposit.status !== "pending") {
+        return res.status(400).json({ message: "Deposit is not pending" });
+      }
+
+      await sendPaymentQr(req, res, deposit.amount, deposit.transactionCode);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // ========== ADMIN DEPOSITS MANAGEMENT ==========
   app.get("/api/admin/deposits/pending", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
     try {
@@ -1744,32 +3148,10 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Deposit not found" });
       }
 
-      await storage.updateDepositStatus(req.params.id, "approved");
-      
-      const newBalance = (parseFloat(deposit.user.walletBalance) + parseFloat(deposit.amount)).toFixed(2);
-      await storage.updateUserBalance(deposit.userId, newBalance);
-
-      await storage.createWalletTransaction({
-        userId: deposit.userId,
-        type: "credit",
-        amount: deposit.amount,
-        reason: `Nạp tiền - Mã GD: ${deposit.transactionCode}`,
-      });
-      
-      await storage.createAdminLog({
-        adminId: (req.session as any).userId,
-        action: "deposit_approved",
-        meta: { depositId: req.params.id, amount: deposit.amount, userId: deposit.userId },
-      });
-
-      await sendNotification(
-        deposit.userId,
-        "deposit_update",
-        "Nạp tiền thành công",
-        `Yêu cầu nạp ${parseFloat(deposit.amount).toLocaleString("vi-VN")}đ đã được phê duyệt. Số dư mới: ${parseFloat(newBalance).toLocaleString("vi-VN")}đ`,
-        "/dashboard",
-        { depositId: req.params.id, amount: deposit.amount }
-      );
+      const approved = await approveDepositPayment(deposit, (req.session as any).userId);
+      if (!approved) {
+        return res.status(400).json({ message: "Deposit already processed" });
+      }
 
       res.json({ message: "Deposit approved and wallet credited" });
     } catch (error: any) {
@@ -1807,6 +3189,116 @@ export async function registerRoutes(
     }
   });
 
+  // ========== BANK RECONCILIATION ==========
+  // Provider webhook (Casso / SePay / local stub) - authenticated by BANK_WEBHOOK_SECRET, not a session
+  app.post("/api/bank/webhook", async (req: Request, res: Response) => {
+    try {
+      if (!process.env.BANK_WEBHOOK_SECRET) {
+        return res.status(503).json({ message: "Bank webhook is not configured" });
+      }
+      if (!hasValidWebhookSecret(req)) {
+        return res.status(401).json({ message: "Invalid webhook secret" });
+      }
+
+      const { provider, transactions } = parseProviderPayload(req.body);
+      const summary = await recordBankTransactions(provider, transactions);
+      res.json({ success: true, ...summary });
+    } catch (error: any) {
+      console.error("Bank webhook error:", error);
+      res.status(500).json({ success: false, message: error.message });
+    }
+  });
+
+  // Upload a CSV statement exported from internet banking
+  app.post("/api/admin/bank-transactions/import", isAuthenticated, requireRole(["admin"]), uploadStatement.single("file"), async (req: Request, res: Response) => {
+    try {
+      const text = req.file ? req.file.buffer.toString("utf-8") : req.body.csv;
+      if (!text) {
+        return res.status(400).json({ message: "Vui lòng tải lên file sao kê (CSV)" });
+      }
+
+      let transactions;
+      try {
+        transactions = parseStatementCsv(text);
+      } catch (error: any) {
+        return res.status(400).json({ message: error.message });
+      }
+
+      const summary = await recordBankTransactions("csv", transactions);
+
+      await storage.createAdminLog({
+        adminId: (req.user as any).id,
+        action: "bank_statement_imported",
+        meta: { fileName: req.file?.originalname, ...summary },
+      });
+
+      res.json(summary);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Review queue defaults to everything that was not settled automatically
+  app.get("/api/admin/bank-transactions", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status as string | undefined;
+      const statuses = status === "all"
+        ? undefined
+        : status
+          ? (status.split(",") as BankTransaction["status"][])
+          : (["unmatched", "amount_mismatch", "failed"] as BankTransaction["status"][]);
+      const transactions = await storage.getBankTransactions(statuses);
+      res.json(transactions);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Admin settles a queued transfer against a chosen order / checkout / deposit (amount check skipped)
+  app.post("/api/admin/bank-transactions/:id/resolve", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      const { type, targetId } = req.body;
+      if (!["order", "checkout", "deposit"].includes(type) || !targetId) {
+        return res.status(400).json({ message: "Cần chọn loại (order / checkout / deposit) và mã cần xác nhận" });
+      }
+
+      const record = await storage.getBankTransaction(req.params.id);
+      if (!record) {
+        return res.status(404).json({ message: "Giao dịch không tồn tại" });
+      }
+      if (record.status === "matched" || record.status === "resolved" || record.status === "ignored") {
+        return res.status(400).json({ message: "Giao dịch đã được xử lý" });
+      }
+
+      const result = await settleBankTransaction(record, type, targetId, (req.user as any).id);
+      if (result.status !== "resolved") {
+        return res.status(400).json({ message: result.note, transaction: result });
+      }
+      res.json(result);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.post("/api/admin/bank-transactions/:id/ignore", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      const record = await storage.getBankTransaction(req.params.id);
+      if (!record) {
+        return res.status(404).json({ message: "Giao dịch không tồn tại" });
+      }
+
+      const updated = await storage.updateBankTransaction(req.params.id, {
+        status: "ignored",
+        note: req.body.note || record.note,
+        reviewedBy: (req.user as any).id,
+        reviewedAt: new Date(),
+      });
+      res.json(updated);
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // ========== ADMIN REVIEWS MANAGEMENT ==========
   app.get("/api/admin/reviews", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
     try {
@@ -1850,7 +3342,7 @@ export async function registerRoutes(
   });
 
   // ========== DEPOSITS (User) ==========
-  app.post("/api/deposits", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/deposits", isAuthenticated, rateLimit("deposits"), async (req: Request, res: Response) => {
     try {
       const userId = (req.session as any)?.userId;
       const { amount, transactionCode, proofImageUrl } = req.body;
@@ -1903,7 +3395,11 @@ export async function registerRoutes(
         return res.status(403).json({ message: "Not authorized" });
       }
 
-      await storage.markMessagesAsRead(req.params.id, userId);
+      const read = await storage.markMessagesAsRead(req.params.id, userId);
+      if (read > 0) {
+        const otherId = conversation.participant1Id === userId ? conversation.participant2Id : conversation.participant1Id;
+        realtime.sendReadReceipt(conversation.id, userId, otherId);
+      }
       const messages = await storage.getConversationMessages(req.params.id);
       res.json(messages);
     } catch (error: any) {
@@ -1911,7 +3407,7 @@ export async function registerRoutes(
     }
   });
 
-  app.post("/api/conversations/:id/messages", isAuthenticated, async (req: Request, res: Response) => {
+  app.post("/api/conversations/:id/messages", isAuthenticated, rateLimit("messages"), async (req: Request, res: Response) => {
     try {
       const userId = (req.session as any)?.userId;
       const { content, type = "text", fileUrl } = req.body;
@@ -1937,6 +3433,9 @@ export async function registerRoutes(
       const recipientId = conversation.participant1Id === userId 
         ? conversation.participant2Id 
         : conversation.participant1Id;
+
+      // The sender's other tabs get it too
+      realtime.sendToUsers([recipientId, userId], { type: "message:new", conversationId: conversation.id, message });
       
       const truncatedContent = content.length > 50 ? content.substring(0, 50) + "..." : content;
       
@@ -2108,47 +3607,6 @@ export async function registerRoutes(
     }
   });
 
-  // ========== ADMIN LOGIN (Special Admin Account) ==========
-  app.post("/api/admin/login", async (req: Request, res: Response) => {
-    try {
-      const { username, password } = req.body;
-      
-      const ADMIN_USERNAME = process.env.ADMIN_USERNAME || "animodadmin";
-      const ADMIN_PASSWORD = process.env.ADMIN_PASSWORD || "bssoacemtu1";
-      
-      if (username !== ADMIN_USERNAME || password !== ADMIN_PASSWORD) {
-        return res.status(401).json({ message: "Tên đăng nhập hoặc mật khẩu không đúng" });
-      }
-      
-      let adminUser = await storage.getUserByEmail("admin@taphoavietmax.vn");
-      
-      if (!adminUser) {
-        const bcrypt = await import("bcryptjs");
-        const hashedPassword = await bcrypt.hash(ADMIN_PASSWORD, 10);
-        adminUser = await storage.createUser({
-          email: "admin@taphoavietmax.vn",
-          password: hashedPassword,
-          firstName: "Admin",
-          lastName: "System",
-        });
-        await storage.updateUserRole(adminUser.id, "admin");
-        adminUser = await storage.getUser(adminUser.id);
-      }
-      
-      if (adminUser && adminUser.role !== "admin") {
-        await storage.updateUserRole(adminUser.id, "admin");
-        adminUser = await storage.getUser(adminUser.id);
-      }
-      
-      (req.session as any).userId = adminUser!.id;
-      
-      res.json({ message: "Đăng nhập admin thành công", user: adminUser });
-    } catch (error: any) {
-      console.error("Admin login error:", error);
-      res.status(500).json({ message: error.message });
-    }
-  });
-
   // ========== ADMIN SETUP ==========
   app.post("/api/make-first-admin", isAuthenticated, async (req: Request, res: Response) => {
     try {
@@ -2173,12 +3631,12 @@ export async function registerRoutes(
   // Public endpoint for bank settings (for QR payment display)
   app.get("/api/public/bank-settings", async (req: Request, res: Response) => {
     try {
-      const settings = await storage.getAllSystemSettings();
+      const bank = await getBankSettings();
       res.json({
-        bankName: settings.bank_name || "Vietcombank",
-        accountNumber: settings.account_number || "9878808855",
-        accountHolder: settings.account_holder || "LUONG THI LIEN",
-        bankCode: (settings.bank_name || "Vietcombank").toLowerCase().replace(/\s+/g, ''),
+        bankName: bank.bankName,
+        accountNumber: bank.accountNumber,
+        accountHolder: bank.accountHolder,
+        bankCode: bank.bankName.toLowerCase().replace(/\s+/g, ''),
       });
     } catch (error: any) {
       // Return defaults on error
@@ -2194,13 +3652,21 @@ export async function registerRoutes(
   app.get("/api/admin/settings", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
     try {
       const settings = await storage.getAllSystemSettings();
+      if (settings.smtp_password) {
+        settings.smtp_password = "********";
+      }
       res.json(settings);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
   });
 
-  app.post("/api/admin/settings/:key", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+  // The settings read by getBankSettings decide where customers' transfers go, so changing
+  // them needs a fresh 2FA code
+  const requireTwoFactorForBankSettings = (req: Request, res: Response, next: NextFunction) =>
+    BANK_SETTING_KEYS.has(req.params.key) ? requireTwoFactorCode(req, res, next) : next();
+
+  app.post("/api/admin/settings/:key", isAuthenticated, requireRole(["admin"]), requireTwoFactorForBankSettings, async (req: Request, res: Response) => {
     try {
       const { value, description } = req.body;
       await storage.updateSystemSetting(req.params.key, value, description);
@@ -2210,6 +3676,59 @@ export async function registerRoutes(
     }
   });
 
+  // Accounts currently locked out after repeated failed logins
+  app.get("/api/admin/locked-accounts", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      const locked = await storage.getLockedAccounts();
+      res.json(locked.map(({ user, ...lockout }) => ({
+        ...lockout,
+        user: { id: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName, role: user.role },
+      })));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  app.delete("/api/admin/locked-accounts/:userId", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      await storage.clearLoginFailures(req.params.userId);
+      await storage.createAdminLog({
+        adminId: (req.user as any).id,
+        action: "account_unlocked",
+        meta: { userId: req.params.userId },
+      });
+      res.json({ message: "Đã mở khóa tài khoản" });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Email outbox: what was queued, sent or gave up
+  app.get("/api/admin/email/outbox", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      const status = req.query.status as "pending" | "sending" | "sent" | "failed" | undefined;
+      res.json(await storage.getEmailOutbox(status));
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Queue a test email and flush the outbox right away, to check the SMTP settings
+  app.post("/api/admin/email/test", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
+    try {
+      const to = req.body.to || (req.user as any).email;
+      if (!to || !/^[^\s@]+@[^\s@]+$/.test(to)) {
+        return res.status(400).json({ message: "Địa chỉ email không hợp lệ" });
+      }
+
+      await queueTestEmail(to);
+      const run = await jobRunner.run("email-outbox", true);
+      res.json({ message: "Đã gửi email thử nghiệm", run });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // ========== NOTIFICATIONS ==========
   // Get user notification settings
   app.get("/api/notifications/settings", isAuthenticated, async (req: Request, res: Response) => {
@@ -2464,14 +3983,26 @@ export async function registerRoutes(
   app.post("/api/wishlist", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = (req.session as any)?.userId;
-      const { productId, priceAtAdd } = req.body;
+      const { productId, notifyOnPriceDrop, notifyOnRestock } = req.body;
       
       const existing = await storage.isInWishlist(userId, productId);
       if (existing) {
         return res.status(400).json({ message: "Sản phẩm đã có trong danh sách yêu thích" });
       }
+
+      // Price drops are measured from the real price at the time of saving
+      const product = await storage.getProduct(productId);
+      if (!product) {
+        return res.status(404).json({ message: "Sản phẩm không tồn tại" });
+      }
       
-      const wishlist = await storage.addToWishlist({ userId, productId, priceAtAdd });
+      const wishlist = await storage.addToWishlist({
+        userId,
+        productId,
+        priceAtAdd: product.price,
+        notifyOnPriceDrop: notifyOnPriceDrop !== false,
+        notifyOnRestock: notifyOnRestock !== false,
+      });
       res.json(wishlist);
     } catch (error: any) {
       res.status(500).json({ message: error.message });
@@ -2530,6 +4061,52 @@ export async function registerRoutes(
     }
   });
 
+  // Buy a bundle with wallet balance - every component is delivered in one order
+  app.post("/api/bundles/:id/orders", isAuthenticated, requireVerifiedEmail, async (req: Request, res: Response) => {
+    try {
+      const userId = (req.user as any).id;
+      const { quantity = 1, paymentMethod = "wallet" } = req.body;
+
+      if (paymentMethod !== "wallet") {
+        return res.status(400).json({ message: "Bundle chỉ hỗ trợ thanh toán bằng số dư ví" });
+      }
+      if (!Number.isInteger(quantity) || quantity < 1) {
+        return res.status(400).json({ message: "Số lượng không hợp lệ" });
+      }
+
+      const { order, bundle, sellerShares } = await storage.createBundleOrder(userId, req.params.id, quantity);
+
+      await sendNotification(
+        userId,
+        "order_paid",
+        "Đơn hàng đã thanh toán thành công",
+        `Đơn hàng #${order.orderCode} cho bundle "${bundle.title}" đã được thanh toán. Kiểm tra nội dung đã giao.`,
+        "/dashboard",
+        { orderId: order.id, orderCode: order.orderCode, bundleId: bundle.id }
+      );
+
+      for (const share of sellerShares) {
+        await sendNotification(
+          share.sellerId,
+          "new_order",
+          "Bạn có đơn hàng mới đã thanh toán",
+          `Đơn hàng #${order.orderCode} (bundle "${bundle.title}") đã được thanh toán. ${parseFloat(share.amount).toLocaleString("vi-VN")}đ sẽ được chuyển vào ví sau 3 ngày.`,
+          "/seller",
+          { orderId: order.id, orderCode: order.orderCode, bundleId: bundle.id }
+        );
+      }
+
+      await payReferralCommission(userId, order);
+
+      res.status(201).json(revealOrder(order, userId));
+    } catch (error: any) {
+      if (error instanceof OrderError || error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      res.status(500).json({ message: error.message });
+    }
+  });
+
   // Seller: Get my bundles
   app.get("/api/seller/bundles", isAuthenticated, requireRole(["seller"]), async (req: Request, res: Response) => {
     try {
@@ -2629,16 +4206,23 @@ export async function registerRoutes(
   app.post("/api/telegram/generate-code", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = (req.session as any)?.userId;
-      const verificationCode = crypto.randomBytes(3).toString("hex").toUpperCase();
+      const verificationCode = crypto.randomBytes(4).toString("hex").toUpperCase();
+      const verificationCodeExpiresAt = new Date(Date.now() + 15 * 60 * 1000);
       
       let settings = await storage.getTelegramSettings(userId);
       if (settings) {
-        settings = await storage.updateTelegramSettings(userId, { verificationCode });
+        settings = await storage.updateTelegramSettings(userId, { verificationCode, verificationCodeExpiresAt });
       } else {
-        settings = await storage.createTelegramSettings({ userId, verificationCode });
+        settings = await storage.createTelegramSettings({ userId, verificationCode, verificationCodeExpiresAt });
       }
       
-      res.json({ verificationCode });
+      // The user sends "/start <code>" to the bot, or opens the deep link
+      const botUsername = process.env.TELEGRAM_BOT_USERNAME;
+      res.json({
+        verificationCode,
+        expiresAt: verificationCodeExpiresAt,
+        botLink: botUsername ? `https://t.me/${botUsername}?start=${verificationCode}` : null,
+      });
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -2648,9 +4232,53 @@ export async function registerRoutes(
   app.patch("/api/telegram/settings", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const userId = (req.session as any)?.userId;
-      const settings = await storage.updateTelegramSettings(userId, req.body);
-      res.json(settings);
+      // Only the preferences; the chat binding is set by the bot webhook
+      const { notifyOrders, notifyMessages, notifyWithdrawals } = req.body;
+      const data: Partial<Record<"notifyOrders" | "notifyMessages" | "notifyWithdrawals", boolean>> = {};
+      if (notifyOrders !== undefined) data.notifyOrders = Boolean(notifyOrders);
+      if (notifyMessages !== undefined) data.notifyMessages = Boolean(notifyMessages);
+      if (notifyWithdrawals !== undefined) data.notifyWithdrawals = Boolean(notifyWithdrawals);
+
+      const settings = await storage.updateTelegramSettings(userId, data);
+      res.json(settings || { isVerified: false });
+    } catch (error: any) {
+      res.status(500).json({ message: error.message });
+    }
+  });
+
+  // Bot webhook (register with setWebhook and secret_token = TELEGRAM_WEBHOOK_SECRET).
+  // Handles "/start <code>" to link a chat and "/stop" to unlink it. Always answers 200 once
+  // authenticated so Telegram doesn't redeliver updates we chose to ignore.
+  app.post("/api/telegram/webhook", async (req: Request, res: Response) => {
+    try {
+      if (!isTelegramConfigured() || !process.env.TELEGRAM_WEBHOOK_SECRET) {
+        return res.status(503).json({ message: "Telegram bot is not configured" });
+      }
+      if (!hasValidTelegramSecret(req.headers["x-telegram-bot-api-secret-token"])) {
+        return res.status(401).json({ message: "Invalid webhook secret" });
+      }
+
+      const command = parseTelegramCommand(req.body);
+      if (command?.command === "/start") {
+        const code = command.argument.toUpperCase();
+        const settings = code ? await storage.verifyTelegramCode(code, command.chatId, command.username) : undefined;
+        await sendTelegramMessage(
+          command.chatId,
+          settings
+            ? "Đã liên kết Telegram với tài khoản của bạn. Bạn sẽ nhận thông báo đơn hàng, tin nhắn và rút tiền tại đây."
+            : "Mã xác minh không hợp lệ hoặc đã hết hạn. Vui lòng tạo mã mới trong phần cài đặt Telegram trên website và gửi: /start <mã>"
+        );
+      } else if (command?.command === "/stop") {
+        const settings = await storage.getTelegramSettingsByChatId(command.chatId);
+        if (settings) {
+          await storage.updateTelegramSettings(settings.userId, { chatId: null, username: null, isVerified: false });
+        }
+        await sendTelegramMessage(command.chatId, "Đã hủy liên kết. Bạn sẽ không nhận thông báo qua Telegram nữa.");
+      }
+
+      res.json({ ok: true });
     } catch (error: any) {
+      console.error("Telegram webhook error:", error);
       res.status(500).json({ message: error.message });
     }
   });
@@ -2688,7 +4316,7 @@ export async function registerRoutes(
         return res.status(403).json({ message: "Không có quyền yêu cầu bảo hành này" });
       }
       
-      if (warranty.status !== "active") {
+      if (warranty.status !== "active" || warranty.endDate < new Date()) {
         return res.status(400).json({ message: "Bảo hành không còn hiệu lực" });
       }
       
@@ -2730,25 +4358,79 @@ export async function registerRoutes(
     }
   });
 
-  // Admin: Update warranty claim status
+  // Admin: Update warranty claim status. Approving needs an outcome: a replacement from the
+  // product's stock (action "replace") or a partial wallet refund (action "refund")
   app.patch("/api/admin/warranty-claims/:id", isAuthenticated, requireRole(["admin"]), async (req: Request, res: Response) => {
     try {
-      const { status, resolution } = req.body;
-      const claim = await storage.updateWarrantyClaimStatus(req.params.id, status, resolution);
-      
-      const claimDetails = await storage.getWarrantyClaimWithDetails(req.params.id);
-      if (claimDetails) {
+      const { status, resolution, action, quantity, refundAmount } = req.body;
+
+      if (status !== "approved" && status !== "rejected") {
+        const claim = await storage.updateWarrantyClaimStatus(req.params.id, status, resolution);
+        if (!claim) {
+          return res.status(404).json({ message: "Yêu cầu bảo hành không tồn tại" });
+        }
         await sendNotification(
-          claimDetails.buyerId,
-          "system",
-          `Yêu cầu bảo hành đã được ${status === "approved" ? "chấp nhận" : status === "rejected" ? "từ chối" : "xử lý"}`,
+          claim.buyerId,
+          "warranty_claim",
+          "Yêu cầu bảo hành đang được xử lý",
           resolution || `Trạng thái: ${status}`,
           "/dashboard"
         );
+        return res.json(claim);
       }
-      
+
+      let outcome: WarrantyResolution;
+      if (status === "rejected") {
+        outcome = { action: "reject" };
+      } else if (action === "replace") {
+        const count = quantity === undefined ? 1 : Number(quantity);
+        if (!Number.isInteger(count) || count < 1) {
+          return res.status(400).json({ message: "Số lượng thay thế không hợp lệ" });
+        }
+        outcome = { action: "replace", quantity: count };
+      } else if (action === "refund") {
+        outcome = { action: "refund", amount: String(refundAmount) };
+      } else {
+        return res.status(400).json({ message: "Vui lòng chọn hình thức xử lý: thay thế (replace) hoặc hoàn tiền (refund)" });
+      }
+
+      const { claim, warranty, order } = await storage.resolveWarrantyClaim(req.params.id, (req.user as any).id, outcome, resolution);
+
+      await storage.createAdminLog({
+        adminId: (req.user as any).id,
+        action: "warranty_claim_resolved",
+        meta: { claimId: claim.id, orderId: order.id, outcome },
+      });
+
+      const outcomeMessage = outcome.action === "replace"
+        ? `Tài khoản thay thế đã được thêm vào đơn hàng #${order.orderCode}.`
+        : outcome.action === "refund"
+          ? `${parseFloat(claim.refundAmount!).toLocaleString('vi-VN')}đ đã được hoàn vào ví của bạn.`
+          : resolution || "Yêu cầu bảo hành không được chấp nhận.";
+      await sendNotification(
+        claim.buyerId,
+        "warranty_claim",
+        `Yêu cầu bảo hành đã được ${status === "approved" ? "chấp nhận" : "từ chối"}`,
+        outcomeMessage,
+        "/dashboard"
+      );
+      if (outcome.action !== "reject") {
+        await sendNotification(
+          warranty.sellerId,
+          "warranty_claim",
+          "Yêu cầu bảo hành đã được xử lý",
+          outcome.action === "replace"
+            ? `Đơn hàng #${order.orderCode} đã được giao ${outcome.quantity} tài khoản thay thế từ kho của bạn.`
+            : `Đơn hàng #${order.orderCode} đã được hoàn ${parseFloat(claim.refundAmount!).toLocaleString('vi-VN')}đ cho người mua.`,
+          "/seller"
+        );
+      }
+
       res.json(claim);
     } catch (error: any) {
+      if (error instanceof OrderError || error instanceof LedgerError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       res.status(500).json({ message: error.message });
     }
   });
@@ -2844,17 +4526,12 @@ export async function registerRoutes(
       const updated = await storage.updateDisputeStatus(req.params.id, status, resolution);
       
       if (status === "resolved_buyer" && refundAmount) {
-        const buyer = await storage.getUser(dispute.buyerId);
-        if (buyer) {
-          const newBalance = (parseFloat(buyer.walletBalance) + parseFloat(refundAmount)).toFixed(2);
-          await storage.updateUserBalance(dispute.buyerId, newBalance);
-          await storage.createWalletTransaction({
-            userId: dispute.buyerId,
-            type: "credit",
-            amount: refundAmount,
-            reason: `Hoàn tiền khiếu nại đơn hàng #${dispute.order.orderCode}`,
-          });
-        }
+        await ledger.credit({
+          userId: dispute.buyerId,
+          amount: refundAmount,
+          reason: `Hoàn tiền khiếu nại đơn hàng #${dispute.order.orderCode}`,
+          relatedOrderId: dispute.orderId,
+        });
       }
       
       await sendNotification(
@@ -2953,7 +4630,7 @@ export async function registerRoutes(
   app.get("/api/users/active", isAuthenticated, async (req: Request, res: Response) => {
     try {
       const activeUsers = await storage.getActiveUsers();
-      res.json(activeUsers.map(u => ({ id: u.id, lastSeenAt: u.lastSeenAt })));
+      res.json(activeUsers.map(u => ({ id: u.id, lastSeenAt: u.lastSeenAt, online: realtime.isOnline(u.id) })));
     } catch (error: any) {
       res.status(500).json({ message: error.message });
     }
@@ -2989,32 +4666,20 @@ export async function registerRoutes(
         return res.status(404).json({ message: "Pending earning not found or already processed" });
       }
       
-      // Release the earning
+      // Release the earning and credit seller's wallet
       const released = await storage.releasePendingEarning(req.params.id, adminNote);
-      
-      // Credit seller's wallet
-      const seller = await storage.getUser(released.sellerId);
-      if (seller) {
-        const newBalance = (parseFloat(seller.walletBalance) + parseFloat(released.amount)).toFixed(2);
-        await storage.updateUserBalance(released.sellerId, newBalance);
-        
-        await storage.createWalletTransaction({
-          userId: released.sellerId,
-          type: "credit",
-          amount: released.amount,
-          reason: `Tiền bán hàng đã được chuyển`,
-          relatedOrderId: released.orderId,
-        });
-        
-        await sendNotification(
-          released.sellerId,
-          "system",
-          "Tiền đã được chuyển vào ví",
-          `Số tiền ${parseFloat(released.amount).toLocaleString('vi-VN')}đ đã được chuyển vào ví của bạn.`,
-          "/seller"
-        );
+      if (!released) {
+        return res.status(404).json({ message: "Pending earning not found or already processed" });
       }
       
+      await sendNotification(
+        released.sellerId,
+        "system",
+        "Tiền đã được chuyển vào ví",
+        `Số tiền ${parseFloat(released.amount).toLocaleString('vi-VN')}đ đã được chuyển vào ví của bạn.`,
+        "/seller"
+      );
+      
       await storage.createAdminLog({
         adminId: (req.user as any).id,
         action: "pending_earning_released",
@@ -3144,52 +4809,108 @@ export async function registerRoutes(
     }
   });
 
-  // ========== AUTO-RELEASE PENDING EARNINGS JOB ==========
-  // Check and release pending earnings every 5 minutes
-  const releasePendingEarnings = async () => {
-    try {
-      const releasableEarnings = await storage.getReleasablePendingEarnings();
-      for (const earning of releasableEarnings) {
-        try {
-          // Release the earning
-          const released = await storage.releasePendingEarning(earning.id, "Tự động chuyển sau 3 ngày");
-          
-          // Credit seller's wallet
-          const seller = await storage.getUser(released.sellerId);
-          if (seller) {
-            const newBalance = (parseFloat(seller.walletBalance) + parseFloat(released.amount)).toFixed(2);
-            await storage.updateUserBalance(released.sellerId, newBalance);
-            
-            await storage.createWalletTransaction({
-              userId: released.sellerId,
-              type: "credit",
-              amount: released.amount,
-              reason: `Tiền bán hàng đã được chuyển (tự động)`,
-              relatedOrderId: released.orderId,
-            });
-            
-            await sendNotification(
-              released.sellerId,
-              "system",
-              "Tiền đã được chuyển vào ví",
-              `Số tiền ${parseFloat(released.amount).toLocaleString('vi-VN')}đ đã được tự động chuyển vào ví của bạn sau 3 ngày.`,
-              "/seller"
-            );
-          }
-          console.log(`Auto-released pending earning ${earning.id} for seller ${earning.sellerId}`);
-        } catch (err) {
-          console.error(`Failed to release pending earning ${earning.id}:`, err);
-        }
+  // ========== SCHEDULED JOBS ==========
+  jobRunner.register("reservation-cleanup", 60, async () => {
+    const releasedItems = await storage.cleanupExpiredReservations();
+    return { releasedItems };
+  });
+
+  jobRunner.register("pending-order-expiry", 60, async () => {
+    const cancelledOrders = await storage.cancelExpiredPendingOrders();
+    return { cancelledOrders };
+  });
+
+  // Seller earnings are held for 3 days, then credited to the wallet
+  jobRunner.register("pending-earnings-release", 5 * 60, async () => {
+    const releasableEarnings = await storage.getReleasablePendingEarnings();
+    let released = 0;
+    let failed = 0;
+    for (const earning of releasableEarnings) {
+      try {
+        const releasedEarning = await storage.releasePendingEarning(earning.id, "Tự động chuyển sau 3 ngày", "Tiền bán hàng đã được chuyển (tự động)");
+        if (!releasedEarning) continue;
+        released++;
+
+        await sendNotification(
+          releasedEarning.sellerId,
+          "system",
+          "Tiền đã được chuyển vào ví",
+          `Số tiền ${parseFloat(releasedEarning.amount).toLocaleString('vi-VN')}đ đã được tự động chuyển vào ví của bạn sau 3 ngày.`,
+          "/seller"
+        );
+      } catch (err) {
+        failed++;
+        console.error(`Failed to release pending earning ${earning.id}:`, err);
       }
-    } catch (err) {
-      console.error("Failed to check releasable pending earnings:", err);
     }
-  };
-  
-  // Run every 5 minutes
-  setInterval(releasePendingEarnings, 5 * 60 * 1000);
-  // Also run once at startup
-  setTimeout(releasePendingEarnings, 10000);
+    return { released, failed };
+  });
+
+  // Announce flash sale prices to buyers who wishlisted one of the products, and switch off
+  // sales that have ended
+  jobRunner.register("flash-sale-schedule", 60, async () => {
+    const started = await storage.claimStartedFlashSales();
+    let notified = 0;
+    for (const sale of started) {
+      const saleProducts = await storage.getFlashSaleProducts(sale.id);
+      for (const item of saleProducts) {
+        notified += await announcePriceDrop(item.product, item.product.price, item.salePrice, sale);
+      }
+    }
+    const ended = await storage.deactivateEndedFlashSales();
+    return { started: started.length, notified, ended };
+  });
+
+  jobRunner.register("broadcast-expiry", 5 * 60, async () => {
+    const expiredBroadcasts = await storage.deactivateExpiredAdminBroadcasts();
+    return { expiredBroadcasts };
+  });
+
+  jobRunner.register("warranty-expiry", 60 * 60, async () => {
+    const expiredWarranties = await storage.expireEndedWarranties();
+    return { expiredWarranties };
+  });
+
+  jobRunner.register("email-outbox", 60, () => processEmailOutbox());
+
+  jobRunner.register("email-digest", 60 * 60, () => queueDailyDigests());
+
+  // Queues products whose last check is older than item_check_interval_hours (default 24),
+  // then works off queued runs, seller-requested ones included
+  jobRunner.register("item-health-check", 5 * 60, async () => {
+    const intervalHours = Number(await storage.getSystemSetting("item_check_interval_hours")) || 24;
+    const due = await storage.getProductsDueForItemCheck(
+      new Date(Date.now() - intervalHours * 60 * 60 * 1000),
+      50,
+      await checkablePlatforms()
+    );
+    for (const product of due) {
+      await storage.queueItemCheckRun(product.id, null);
+    }
+
+    let completed = 0;
+    let failed = 0;
+    let deadItems = 0;
+    for (let run = await storage.claimNextItemCheckRun(); run; run = await storage.claimNextItemCheckRun()) {
+      const outcome = await processItemCheckRun(run);
+      if (outcome.run.status === "completed") completed++;
+      else failed++;
+      deadItems += outcome.run.deadCount;
+    }
+    return { queued: due.length, completed, failed, deadItems };
+  });
+
+  jobRunner.register("item-import-expiry", 10 * 60, async () => {
+    const expired = await storage.expireItemImports();
+    return { expired };
+  });
+
+  jobRunner.register("rate-limit-cleanup", 60 * 60, async () => {
+    const deletedRows = await storage.deleteExpiredRateLimits();
+    return { deletedRows };
+  });
+
+  await jobRunner.start();
 
   return httpServer;
 }
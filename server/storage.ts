@@ -1,15 +1,32 @@
 import { db } from "./db";
-import { eq, and, desc, sql, like, or, count, sum, gte, lte, lt, isNull, ne, asc } from "drizzle-orm";
+import { ledger, InsufficientBalanceError, type DbTransaction } from "./ledger";
+import { encryptContent, decryptContent } from "./itemCrypto";
+import { eq, and, desc, sql, like, or, count, sum, gte, lte, lt, isNull, ne, asc, inArray } from "drizzle-orm";
 import {
+  sessions,
   users,
+  authTokens,
+  userTwoFactor,
+  twoFactorBackupCodes,
+  rateLimitBuckets,
+  userDevices,
+  loginLockouts,
   sellers,
   products,
   productItems,
+  itemImports,
+  itemCheckRuns,
   files,
+  fileDownloads,
   orders,
+  orderItems,
+  checkouts,
+  carts,
+  cartItems,
   walletTransactions,
   withdrawals,
   deposits,
+  bankTransactions,
   adminLogs,
   conversations,
   messages,
@@ -17,6 +34,7 @@ import {
   systemSettings,
   notificationSettings,
   notifications,
+  emailOutbox,
   referrals,
   userReferralCodes,
   flashSales,
@@ -33,13 +51,26 @@ import {
   pendingEarnings,
   type User,
   type UpsertUser,
+  type AuthToken,
+  type UserTwoFactor,
+  type LoginLockout,
+  type UserSession,
   type Seller,
   type InsertSeller,
   type Product,
   type InsertProduct,
   type ProductItem,
   type InsertProductItem,
+  type ItemImport,
+  type ItemCheckRun,
+  type InsertItemImport,
   type Order,
+  type OrderItem,
+  type Checkout,
+  type BankTransaction,
+  type InsertBankTransaction,
+  type CartItem,
+  type CartItemWithProduct,
   type InsertOrder,
   type WalletTransaction,
   type InsertWalletTransaction,
@@ -51,6 +82,7 @@ import {
   type InsertAdminLog,
   type File as FileRecord,
   type InsertFile,
+  type InsertFileDownload,
   type Conversation,
   type InsertConversation,
   type Message,
@@ -60,6 +92,8 @@ import {
   type NotificationSettings,
   type InsertNotificationSettings,
   type Notification,
+  type EmailOutbox,
+  type InsertEmailOutbox,
   type InsertNotification,
   type Referral,
   type InsertReferral,
@@ -110,6 +144,61 @@ function getPlatformLogoUrl(platform?: string | null): string | null {
   return logoMap[platform.toLowerCase()] || null;
 }
 
+// Business-rule failure during checkout; `status` is the HTTP code routes should answer with
+export class OrderError extends Error {
+  constructor(message: string, public status = 400) {
+    super(message);
+    this.name = "OrderError";
+  }
+}
+
+// One product line of a checkout, priced by the caller (list price or live flash sale price)
+export interface OrderLine {
+  product: Product;
+  quantity: number;
+  unitPrice: string;
+  flashSaleProductId?: string;
+}
+
+// How an admin settles a warranty claim: deliver replacement items, refund part of the
+// order to the buyer's wallet, or reject it
+export type WarrantyResolution =
+  | { action: "replace"; quantity: number }
+  | { action: "refund"; amount: string }
+  | { action: "reject" };
+
+// Unpaid orders that still hold their reserved items and flash sale quota
+const PENDING_ORDER_STATUSES: string[] = ["pending_payment", "pending_confirmation"];
+
+// The product item is not linked to a live (pending or paid) order other than orderId
+function notHeldByOtherOrder(orderId: string) {
+  return sql`NOT EXISTS (
+    SELECT 1 FROM ${orderItems} oi JOIN ${orders} o ON o.id = oi.order_id
+    WHERE oi.product_item_id = ${productItems.id} AND oi.order_id <> ${orderId}
+      AND o.status IN ('pending_payment', 'pending_confirmation', 'paid')
+  )`;
+}
+
+// End of the buyer's verification window for an order paid now, if the product has one
+function verificationDeadline(product: Product): Date | null {
+  if (product.category !== "account" || product.verificationWindowMinutes <= 0) return null;
+  return new Date(Date.now() + product.verificationWindowMinutes * 60 * 1000);
+}
+
+// The items' credentials, one per line, as delivered to the buyer (plaintext - seal the
+// result with encryptContent before storing it)
+function itemContents(items: ProductItem[]): string {
+  return items.map((item) => decryptContent(item.content)).join("\n");
+}
+
+function generateOrderCode(): string {
+  return `DH-${Date.now().toString().slice(-8)}${Math.random().toString(36).slice(-4).toUpperCase()}`;
+}
+
+function generateCheckoutCode(): string {
+  return `GH-${Date.now().toString().slice(-8)}${Math.random().toString(36).slice(-4).toUpperCase()}`;
+}
+
 export interface IStorage {
   // Users
   getUser(id: string): Promise<User | undefined>;
@@ -118,11 +207,37 @@ export interface IStorage {
   createUser(userData: { email: string; password: string; firstName: string; lastName?: string | null }): Promise<User>;
   upsertUser(user: UpsertUser): Promise<User>;
   updateUserRole(id: string, role: "buyer" | "seller" | "admin"): Promise<User>;
-  updateUserBalance(id: string, amount: string): Promise<User>;
   updateUserStatus(id: string, status: "active" | "banned" | "pending"): Promise<User>;
   updateUser(id: string, data: Partial<User>): Promise<User>;
   deleteUser(id: string): Promise<void>;
 
+  // Auth tokens & sessions
+  createAuthToken(userId: string, type: AuthToken["type"], tokenHash: string, expiresAt: Date): Promise<AuthToken>;
+  consumeAuthToken(tokenHash: string, type: AuthToken["type"]): Promise<AuthToken | undefined>;
+  markEmailVerified(userId: string): Promise<User>;
+  deleteUserSessions(userId: string, exceptSid?: string): Promise<number>;
+  getUserSessions(userId: string): Promise<UserSession[]>;
+  deleteUserSession(userId: string, sid: string): Promise<boolean>;
+  recordUserDevice(userId: string, fingerprint: string, label: string, ip: string | null): Promise<{ isNew: boolean; isFirst: boolean }>;
+
+  // Two-factor authentication
+  getTwoFactor(userId: string): Promise<UserTwoFactor | undefined>;
+  startTwoFactorSetup(userId: string, secret: string): Promise<UserTwoFactor | undefined>;
+  enableTwoFactor(userId: string, step: number, backupCodeHashes: string[]): Promise<boolean>;
+  recordTwoFactorStep(userId: string, step: number): Promise<boolean>;
+  consumeBackupCode(userId: string, codeHash: string): Promise<boolean>;
+  replaceBackupCodes(userId: string, codeHashes: string[]): Promise<void>;
+  countBackupCodes(userId: string): Promise<number>;
+  disableTwoFactor(userId: string): Promise<void>;
+
+  // Rate limiting & login lockouts
+  hitRateLimit(key: string, windowSeconds: number): Promise<{ count: number; expiresAt: Date }>;
+  deleteExpiredRateLimits(): Promise<number>;
+  getLoginLockout(userId: string): Promise<LoginLockout | undefined>;
+  recordLoginFailure(userId: string, ip: string | undefined, policy: { threshold: number; baseSeconds: number; maxSeconds: number }): Promise<LoginLockout>;
+  clearLoginFailures(userId: string): Promise<void>;
+  getLockedAccounts(): Promise<(LoginLockout & { user: User })[]>;
+
   // Sellers
   getSeller(id: string): Promise<Seller | undefined>;
   getSellerWithUser(id: string): Promise<(Seller & { user: User }) | undefined>;
@@ -151,15 +266,43 @@ export interface IStorage {
   // Product Items
   getProductItem(id: string): Promise<ProductItem | undefined>;
   getProductItems(productId: string): Promise<ProductItem[]>;
-  getAvailableProductItem(productId: string): Promise<ProductItem | undefined>;
-  getAvailableProductItems(productId: string, count: number): Promise<ProductItem[]>;
-  createProductItems(items: InsertProductItem[]): Promise<ProductItem[]>;
+  claimProductItems(productId: string, count: number, tx?: DbTransaction, allowFewer?: boolean): Promise<ProductItem[]>;
+  reserveProductItems(productId: string, count: number, reservedUntil: Date, tx?: DbTransaction): Promise<ProductItem[]>;
+  syncProductStock(productId: string, tx?: DbTransaction): Promise<Product>;
+  createProductItems(items: InsertProductItem[], tx?: DbTransaction): Promise<ProductItem[]>;
   updateProductItemStatus(id: string, status: "available" | "reserved" | "sold"): Promise<ProductItem>;
-  reserveProductItem(id: string, reservedUntil: Date): Promise<ProductItem>;
   checkDuplicateUid(uidHash: string): Promise<boolean>;
+  findExistingUidHashes(uidHashes: string[], tx?: DbTransaction): Promise<Set<string>>;
+
+  // Item imports (two-step account uploads)
+  createItemImport(data: InsertItemImport): Promise<ItemImport>;
+  getItemImport(id: string): Promise<ItemImport | undefined>;
+  getSellerItemImports(sellerId: string): Promise<ItemImport[]>;
+  cancelItemImport(id: string, sellerId: string): Promise<ItemImport | undefined>;
+  commitItemImport(id: string, productId: string, tx?: DbTransaction): Promise<{ itemImport: ItemImport; items: ProductItem[]; skipped: number } | undefined>;
+  createProductFromImport(productData: InsertProduct, importId: string): Promise<{ product: Product; itemImport: ItemImport; items: ProductItem[]; skipped: number }>;
+  expireItemImports(): Promise<number>;
+
+  // Item health checks
+  getItemsForHealthCheck(productId: string, afterId: string | null, limit: number): Promise<ProductItem[]>;
+  applyItemCheckResults(results: { id: string; verdict: "live" | "dead"; reason?: string }[]): Promise<void>;
+  refreshProductLiveRate(productId: string): Promise<Product>;
+  getItemHealthSummary(productId: string): Promise<{ live: number; dead: number; unchecked: number }>;
+  queueItemCheckRun(productId: string, requestedBy: string | null): Promise<ItemCheckRun>;
+  claimNextItemCheckRun(): Promise<ItemCheckRun | undefined>;
+  finishItemCheckRun(id: string, data: Partial<ItemCheckRun>): Promise<ItemCheckRun>;
+  getItemCheckRuns(productId: string, limit?: number): Promise<ItemCheckRun[]>;
+  getProductsDueForItemCheck(checkedBefore: Date, limit: number, platforms: string[] | null): Promise<Product[]>;
 
   // Orders
   getOrder(id: string): Promise<Order | undefined>;
+  getOrderByCode(orderCode: string): Promise<Order | undefined>;
+  getOrderItems(orderId: string): Promise<ProductItem[]>;
+  getOrderLines(orderId: string): Promise<{ line: OrderItem; item: ProductItem }[]>;
+  flagOrderItems(orderId: string, buyerId: string, orderItemIds: string[], reason: string): Promise<{ order: Order; replaced: number; refunded: number; refundAmount: string }>;
+  sellOrderItems(order: Order, tx?: DbTransaction): Promise<ProductItem[]>;
+  releaseOrderItems(orderId: string, tx?: DbTransaction): Promise<number>;
+  cancelOrder(id: string): Promise<Order | undefined>;
   getOrderWithDetails(id: string): Promise<(Order & { product: Product; buyer: User; seller: User; productItem?: ProductItem }) | undefined>;
   getBuyerOrders(buyerId: string): Promise<(Order & { product: Product })[]>;
   getSellerOrders(sellerId: string): Promise<(Order & { product: Product })[]>;
@@ -179,10 +322,15 @@ export interface IStorage {
   getSellerWithdrawals(sellerId: string): Promise<Withdrawal[]>;
   createWithdrawal(withdrawal: InsertWithdrawal): Promise<Withdrawal>;
   updateWithdrawalStatus(id: string, status: "pending" | "approved" | "completed" | "rejected"): Promise<Withdrawal>;
+  completeWithdrawal(id: string): Promise<Withdrawal | undefined>;
 
   // Files
   createFile(file: InsertFile): Promise<FileRecord>;
   getProductFiles(productId: string): Promise<FileRecord[]>;
+  getFile(id: string): Promise<FileRecord | undefined>;
+  getProductBuyerIds(productId: string): Promise<string[]>;
+  recordFileDownload(data: InsertFileDownload): Promise<void>;
+  getOrderDownloadCounts(orderId: string): Promise<Record<string, number>>;
 
   // Deposits
   createDeposit(deposit: InsertDeposit): Promise<Deposit>;
@@ -191,6 +339,14 @@ export interface IStorage {
   getUserDeposits(userId: string): Promise<Deposit[]>;
   getPendingDeposits(): Promise<(Deposit & { user: User })[]>;
   updateDepositStatus(id: string, status: "pending" | "approved" | "rejected", adminNote?: string): Promise<Deposit>;
+  approveDeposit(id: string): Promise<{ deposit: Deposit; transaction: WalletTransaction } | undefined>;
+  findPendingDepositByMemo(normalizedMemo: string): Promise<Deposit | undefined>;
+
+  // Bank Transactions
+  createBankTransaction(data: InsertBankTransaction): Promise<BankTransaction | undefined>;
+  getBankTransaction(id: string): Promise<BankTransaction | undefined>;
+  getBankTransactions(statuses?: BankTransaction["status"][]): Promise<BankTransaction[]>;
+  updateBankTransaction(id: string, updates: Partial<InsertBankTransaction>): Promise<BankTransaction>;
 
   // Admin Logs
   createAdminLog(log: InsertAdminLog): Promise<AdminLog>;
@@ -206,7 +362,8 @@ export interface IStorage {
   getUserConversations(userId: string): Promise<(Conversation & { participant1: User; participant2: User; lastMessage?: Message })[]>;
   createMessage(message: InsertMessage): Promise<Message>;
   getConversationMessages(conversationId: string): Promise<(Message & { sender: User })[]>;
-  markMessagesAsRead(conversationId: string, userId: string): Promise<void>;
+  markMessagesAsRead(conversationId: string, userId: string): Promise<number>;
+  getConversationPartnerIds(userId: string): Promise<string[]>;
   getUnreadMessageCount(userId: string): Promise<number>;
   getOrCreateAdminConversation(userId: string, adminId: string): Promise<Conversation>;
 
@@ -227,6 +384,15 @@ export interface IStorage {
   // Notifications
   createNotification(notification: InsertNotification): Promise<Notification>;
   getUserNotifications(userId: string): Promise<Notification[]>;
+  getNotificationsSince(userId: string, since: Date): Promise<Notification[]>;
+
+  // Email Outbox
+  queueEmail(data: InsertEmailOutbox): Promise<EmailOutbox>;
+  claimDueEmails(limit: number): Promise<EmailOutbox[]>;
+  markEmailSent(id: string): Promise<void>;
+  markEmailFailed(id: string, error: string, retryAt: Date | null): Promise<void>;
+  getEmailOutbox(status?: "pending" | "sending" | "sent" | "failed"): Promise<EmailOutbox[]>;
+  getDigestRecipients(): Promise<{ settings: NotificationSettings; user: User }[]>;
   getUnreadNotificationsCount(userId: string): Promise<number>;
   markNotificationAsRead(id: string): Promise<Notification>;
   markAllNotificationsAsRead(userId: string): Promise<void>;
@@ -258,7 +424,6 @@ export interface IStorage {
   updateUserReferralCodeStats(userId: string, earnings: string): Promise<void>;
   updateReferrerTotalEarnings(userId: string, earnings: string): Promise<void>;
   incrementReferralCount(userId: string): Promise<void>;
-  creditUserWallet(userId: string, amount: string): Promise<void>;
 
   // Flash Sales
   createFlashSale(data: InsertFlashSale): Promise<FlashSale>;
@@ -271,6 +436,9 @@ export interface IStorage {
   getFlashSaleProducts(flashSaleId: string): Promise<(FlashSaleProduct & { product: Product })[]>;
   removeFlashSaleProduct(id: string): Promise<void>;
   getProductFlashSale(productId: string): Promise<(FlashSaleProduct & { flashSale: FlashSale }) | undefined>;
+  incrementFlashSaleSoldQuantity(id: string, quantity: number, enforceLimit?: boolean, tx?: DbTransaction): Promise<boolean>;
+  claimStartedFlashSales(): Promise<FlashSale[]>;
+  deactivateEndedFlashSales(): Promise<number>;
 
   // Wishlists
   addToWishlist(data: InsertWishlist): Promise<Wishlist>;
@@ -278,6 +446,8 @@ export interface IStorage {
   getUserWishlist(userId: string): Promise<(Wishlist & { product: Product })[]>;
   isInWishlist(userId: string, productId: string): Promise<boolean>;
   getWishlistUsersForProduct(productId: string): Promise<Wishlist[]>;
+  claimWishlistPriceDrops(productId: string, newPrice: string): Promise<Wishlist[]>;
+  claimWishlistRestocks(productId: string): Promise<Wishlist[]>;
 
   // Bundles
   createBundle(data: InsertBundle): Promise<Bundle>;
@@ -289,12 +459,32 @@ export interface IStorage {
   deleteBundle(id: string): Promise<void>;
   addBundleItem(data: InsertBundleItem): Promise<BundleItem>;
   removeBundleItem(id: string): Promise<void>;
+  createWalletOrder(input: OrderLine & { buyerId: string }): Promise<Order>;
+  createPendingOrder(input: OrderLine & { buyerId: string; paymentMethod: "qr" | "manual" }): Promise<Order>;
+  createCheckout(buyerId: string, lines: OrderLine[], paymentMethod: "wallet" | "qr" | "manual"): Promise<{ checkout: Checkout; orders: Order[] }>;
+  settleOrderPayment(orderId: string, adminId?: string, tx?: DbTransaction): Promise<Order | undefined>;
+  settleCheckoutPayment(checkoutId: string, adminId?: string): Promise<{ checkout: Checkout; orders: Order[] } | undefined>;
+  getCheckout(id: string): Promise<Checkout | undefined>;
+  getCheckoutByCode(checkoutCode: string): Promise<Checkout | undefined>;
+  getCheckoutOrders(checkoutId: string): Promise<(Order & { product: Product })[]>;
+  getPendingCheckouts(): Promise<Checkout[]>;
+  markCheckoutPaymentSubmitted(id: string): Promise<Checkout | undefined>;
+  cancelCheckout(id: string): Promise<Checkout | undefined>;
+
+  // Carts
+  getCartItems(userId: string): Promise<CartItemWithProduct[]>;
+  addCartItem(userId: string, productId: string, quantity: number, unitPrice: string): Promise<CartItem>;
+  updateCartItemQuantity(userId: string, itemId: string, quantity: number): Promise<CartItem | undefined>;
+  removeCartItem(userId: string, itemId: string): Promise<boolean>;
+  clearCart(userId: string, tx?: DbTransaction): Promise<void>;
+  createBundleOrder(buyerId: string, bundleId: string, quantity: number): Promise<{ order: Order; bundle: Bundle; sellerShares: { sellerId: string; amount: string }[] }>;
 
   // Telegram Settings
   getTelegramSettings(userId: string): Promise<TelegramSettings | undefined>;
   createTelegramSettings(data: InsertTelegramSettings): Promise<TelegramSettings>;
   updateTelegramSettings(userId: string, data: Partial<TelegramSettings>): Promise<TelegramSettings>;
   getTelegramSettingsByChatId(chatId: string): Promise<TelegramSettings | undefined>;
+  verifyTelegramCode(code: string, chatId: string, username: string | null): Promise<TelegramSettings | undefined>;
   getVerifiedTelegramUsers(): Promise<TelegramSettings[]>;
 
   // Warranties
@@ -304,6 +494,7 @@ export interface IStorage {
   getUserWarranties(userId: string): Promise<(Warranty & { product: Product; order: Order })[]>;
   getSellerWarranties(sellerId: string): Promise<(Warranty & { product: Product; buyer: User })[]>;
   updateWarrantyStatus(id: string, status: "active" | "claimed" | "expired" | "void"): Promise<Warranty>;
+  expireEndedWarranties(): Promise<number>;
 
   // Warranty Claims
   createWarrantyClaim(data: InsertWarrantyClaim): Promise<WarrantyClaim>;
@@ -311,6 +502,7 @@ export interface IStorage {
   getWarrantyClaimWithDetails(id: string): Promise<(WarrantyClaim & { warranty: Warranty; buyer: User }) | undefined>;
   getPendingWarrantyClaims(): Promise<(WarrantyClaim & { warranty: Warranty; buyer: User })[]>;
   updateWarrantyClaimStatus(id: string, status: "pending" | "approved" | "rejected" | "processing", resolution?: string): Promise<WarrantyClaim>;
+  resolveWarrantyClaim(id: string, adminId: string, outcome: WarrantyResolution, resolution?: string): Promise<{ claim: WarrantyClaim; warranty: Warranty; order: Order }>;
 
   // Disputes
   createDispute(data: InsertDispute): Promise<Dispute>;
@@ -346,6 +538,7 @@ export interface IStorage {
   getAllAdminBroadcasts(): Promise<AdminBroadcast[]>;
   updateAdminBroadcast(id: string, data: Partial<AdminBroadcast>): Promise<AdminBroadcast>;
   deleteAdminBroadcast(id: string): Promise<void>;
+  deactivateExpiredAdminBroadcasts(): Promise<number>;
 
   // Conversation Unread Counts
   getConversationUnreadCount(conversationId: string, userId: string): Promise<number>;
@@ -357,7 +550,7 @@ export interface IStorage {
   getAllPendingEarnings(): Promise<PendingEarning[]>;
   getReleasablePendingEarnings(): Promise<PendingEarning[]>;
   updatePendingEarning(id: string, data: Partial<PendingEarning>): Promise<PendingEarning>;
-  releasePendingEarning(id: string, adminNote?: string): Promise<PendingEarning>;
+  releasePendingEarning(id: string, adminNote?: string, reason?: string): Promise<PendingEarning | undefined>;
   cancelPendingEarning(id: string, adminNote?: string): Promise<PendingEarning>;
   getSellerPendingBalance(sellerId: string): Promise<string>;
 }
@@ -387,6 +580,267 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
+  // Issuing a new link invalidates the user's earlier unused links of the same type
+  async createAuthToken(userId: string, type: AuthToken["type"], tokenHash: string, expiresAt: Date): Promise<AuthToken> {
+    return await db.transaction(async (tx) => {
+      await tx
+        .update(authTokens)
+        .set({ usedAt: new Date() })
+        .where(and(eq(authTokens.userId, userId), eq(authTokens.type, type), isNull(authTokens.usedAt)));
+      const [token] = await tx.insert(authTokens).values({ userId, type, tokenHash, expiresAt }).returning();
+      return token;
+    });
+  }
+
+  // Single use: the conditional update only succeeds for the first caller with a live token
+  async consumeAuthToken(tokenHash: string, type: AuthToken["type"]): Promise<AuthToken | undefined> {
+    const [token] = await db
+      .update(authTokens)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(authTokens.tokenHash, tokenHash),
+          eq(authTokens.type, type),
+          isNull(authTokens.usedAt),
+          sql`${authTokens.expiresAt} > now()`
+        )
+      )
+      .returning();
+    return token;
+  }
+
+  async markEmailVerified(userId: string): Promise<User> {
+    const [user] = await db
+      .update(users)
+      .set({ emailVerifiedAt: sql`coalesce(${users.emailVerifiedAt}, now())`, updatedAt: new Date() })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+
+  // Logs the user out everywhere (except, optionally, the session making the request)
+  async deleteUserSessions(userId: string, exceptSid?: string): Promise<number> {
+    const deleted = await db
+      .delete(sessions)
+      .where(
+        and(
+          sql`${sessions.sess}->>'userId' = ${userId}`,
+          exceptSid ? ne(sessions.sid, exceptSid) : undefined
+        )
+      )
+      .returning({ sid: sessions.sid });
+    return deleted.length;
+  }
+
+  async getUserSessions(userId: string): Promise<UserSession[]> {
+    return await db
+      .select()
+      .from(sessions)
+      .where(and(sql`${sessions.sess}->>'userId' = ${userId}`, gte(sessions.expire, sql`now()`)))
+      .orderBy(desc(sessions.expire));
+  }
+
+  async deleteUserSession(userId: string, sid: string): Promise<boolean> {
+    const deleted = await db
+      .delete(sessions)
+      .where(and(eq(sessions.sid, sid), sql`${sessions.sess}->>'userId' = ${userId}`))
+      .returning({ sid: sessions.sid });
+    return deleted.length > 0;
+  }
+
+  // isFirst: the user had no recorded devices yet (new account, or first login since devices
+  // were tracked), so there is nothing to warn about
+  async recordUserDevice(userId: string, fingerprint: string, label: string, ip: string | null): Promise<{ isNew: boolean; isFirst: boolean }> {
+    const [inserted] = await db
+      .insert(userDevices)
+      .values({ userId, fingerprint, label, lastIp: ip })
+      .onConflictDoNothing()
+      .returning();
+    if (!inserted) {
+      await db
+        .update(userDevices)
+        .set({ lastSeenAt: new Date(), lastIp: ip })
+        .where(and(eq(userDevices.userId, userId), eq(userDevices.fingerprint, fingerprint)));
+      return { isNew: false, isFirst: false };
+    }
+
+    const [result] = await db.select({ count: count() }).from(userDevices).where(eq(userDevices.userId, userId));
+    return { isNew: true, isFirst: (result?.count || 0) <= 1 };
+  }
+
+  // Two-factor authentication
+  async getTwoFactor(userId: string): Promise<UserTwoFactor | undefined> {
+    const [row] = await db.select().from(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    return row;
+  }
+
+  // Starts (or restarts) enrollment; never overwrites the secret of an enabled 2FA
+  async startTwoFactorSetup(userId: string, secret: string): Promise<UserTwoFactor | undefined> {
+    const [row] = await db
+      .insert(userTwoFactor)
+      .values({ userId, secret })
+      .onConflictDoUpdate({
+        target: userTwoFactor.userId,
+        set: { secret, lastUsedStep: null, createdAt: new Date() },
+        setWhere: isNull(userTwoFactor.enabledAt),
+      })
+      .returning();
+    return row;
+  }
+
+  async enableTwoFactor(userId: string, step: number, backupCodeHashes: string[]): Promise<boolean> {
+    return await db.transaction(async (tx) => {
+      const [row] = await tx
+        .update(userTwoFactor)
+        .set({ enabledAt: new Date(), lastUsedStep: step })
+        .where(and(eq(userTwoFactor.userId, userId), isNull(userTwoFactor.enabledAt)))
+        .returning();
+      if (!row) return false;
+
+      await tx.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+      await tx.insert(twoFactorBackupCodes).values(backupCodeHashes.map((codeHash) => ({ userId, codeHash })));
+      return true;
+    });
+  }
+
+  // Accepts a TOTP time step only if it is newer than the last one used (replay protection)
+  async recordTwoFactorStep(userId: string, step: number): Promise<boolean> {
+    const [row] = await db
+      .update(userTwoFactor)
+      .set({ lastUsedStep: step })
+      .where(
+        and(
+          eq(userTwoFactor.userId, userId),
+          or(isNull(userTwoFactor.lastUsedStep), lt(userTwoFactor.lastUsedStep, step))
+        )
+      )
+      .returning();
+    return Boolean(row);
+  }
+
+  async consumeBackupCode(userId: string, codeHash: string): Promise<boolean> {
+    const [row] = await db
+      .update(twoFactorBackupCodes)
+      .set({ usedAt: new Date() })
+      .where(
+        and(
+          eq(twoFactorBackupCodes.userId, userId),
+          eq(twoFactorBackupCodes.codeHash, codeHash),
+          isNull(twoFactorBackupCodes.usedAt)
+        )
+      )
+      .returning();
+    return Boolean(row);
+  }
+
+  async replaceBackupCodes(userId: string, codeHashes: string[]): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+      await tx.insert(twoFactorBackupCodes).values(codeHashes.map((codeHash) => ({ userId, codeHash })));
+    });
+  }
+
+  async countBackupCodes(userId: string): Promise<number> {
+    const [result] = await db
+      .select({ count: count() })
+      .from(twoFactorBackupCodes)
+      .where(and(eq(twoFactorBackupCodes.userId, userId), isNull(twoFactorBackupCodes.usedAt)));
+    return result?.count || 0;
+  }
+
+  async disableTwoFactor(userId: string): Promise<void> {
+    await db.transaction(async (tx) => {
+      await tx.delete(twoFactorBackupCodes).where(eq(twoFactorBackupCodes.userId, userId));
+      await tx.delete(userTwoFactor).where(eq(userTwoFactor.userId, userId));
+    });
+  }
+
+  // Rate limiting: one upsert counts the request, starting a new window once the old one expired
+  async hitRateLimit(key: string, windowSeconds: number): Promise<{ count: number; expiresAt: Date }> {
+    const expired = sql`${rateLimitBuckets.expiresAt} <= now()`;
+    const [bucket] = await db
+      .insert(rateLimitBuckets)
+      .values({ key, count: 1, windowStart: sql`now()`, expiresAt: sql`now() + make_interval(secs => ${windowSeconds})` })
+      .onConflictDoUpdate({
+        target: rateLimitBuckets.key,
+        set: {
+          count: sql`case when ${expired} then 1 else ${rateLimitBuckets.count} + 1 end`,
+          windowStart: sql`case when ${expired} then now() else ${rateLimitBuckets.windowStart} end`,
+          expiresAt: sql`case when ${expired} then now() + make_interval(secs => ${windowSeconds}) else ${rateLimitBuckets.expiresAt} end`,
+        },
+      })
+      .returning({ count: rateLimitBuckets.count, expiresAt: rateLimitBuckets.expiresAt });
+    return bucket;
+  }
+
+  async deleteExpiredRateLimits(): Promise<number> {
+    const buckets = await db
+      .delete(rateLimitBuckets)
+      .where(lt(rateLimitBuckets.expiresAt, sql`now()`))
+      .returning({ key: rateLimitBuckets.key });
+    // Lockout history is kept for a day after the last failure so the next lockout still escalates
+    const lockouts = await db
+      .delete(loginLockouts)
+      .where(
+        and(
+          or(isNull(loginLockouts.lockedUntil), lt(loginLockouts.lockedUntil, sql`now()`)),
+          lt(loginLockouts.lastFailedAt, sql`now() - interval '1 day'`)
+        )
+      )
+      .returning({ userId: loginLockouts.userId });
+    return buckets.length + lockouts.length;
+  }
+
+  async getLoginLockout(userId: string): Promise<LoginLockout | undefined> {
+    const [lockout] = await db.select().from(loginLockouts).where(eq(loginLockouts.userId, userId));
+    return lockout;
+  }
+
+  async recordLoginFailure(
+    userId: string,
+    ip: string | undefined,
+    policy: { threshold: number; baseSeconds: number; maxSeconds: number }
+  ): Promise<LoginLockout> {
+    return await db.transaction(async (tx) => {
+      // The upsert row-locks the account, so concurrent failures are counted one at a time
+      const [row] = await tx
+        .insert(loginLockouts)
+        .values({ userId, failedAttempts: 1, lastFailedAt: new Date(), lastIp: ip ?? null })
+        .onConflictDoUpdate({
+          target: loginLockouts.userId,
+          set: { failedAttempts: sql`${loginLockouts.failedAttempts} + 1`, lastFailedAt: new Date(), lastIp: ip ?? null },
+        })
+        .returning();
+      if (row.failedAttempts < policy.threshold) return row;
+
+      const seconds = Math.min(policy.baseSeconds * 2 ** row.lockoutCount, policy.maxSeconds);
+      const [locked] = await tx
+        .update(loginLockouts)
+        .set({
+          failedAttempts: 0,
+          lockoutCount: row.lockoutCount + 1,
+          lockedUntil: sql`now() + make_interval(secs => ${seconds})`,
+        })
+        .where(eq(loginLockouts.userId, userId))
+        .returning();
+      return locked;
+    });
+  }
+
+  async clearLoginFailures(userId: string): Promise<void> {
+    await db.delete(loginLockouts).where(eq(loginLockouts.userId, userId));
+  }
+
+  async getLockedAccounts(): Promise<(LoginLockout & { user: User })[]> {
+    const rows = await db
+      .select({ lockout: loginLockouts, user: users })
+      .from(loginLockouts)
+      .innerJoin(users, eq(loginLockouts.userId, users.id))
+      .where(gte(loginLockouts.lockedUntil, sql`now()`))
+      .orderBy(desc(loginLockouts.lockedUntil));
+    return rows.map((row) => ({ ...row.lockout, user: row.user }));
+  }
+
   async upsertUser(userData: UpsertUser): Promise<User> {
     const [user] = await db
       .insert(users)
@@ -411,15 +865,6 @@ export class DatabaseStorage implements IStorage {
     return user;
   }
 
-  async updateUserBalance(id: string, amount: string): Promise<User> {
-    const [user] = await db
-      .update(users)
-      .set({ walletBalance: amount, updatedAt: new Date() })
-      .where(eq(users.id, id))
-      .returning();
-    return user;
-  }
-
   async checkAdminExists(): Promise<boolean> {
     const [result] = await db
       .select({ count: count() })
@@ -664,23 +1109,30 @@ export class DatabaseStorage implements IStorage {
         )
       );
 
+    // Cart checkouts expire with their child orders
+    await db
+      .update(checkouts)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(and(eq(checkouts.status, "pending_payment"), lt(checkouts.createdAt, thirtyMinutesAgo)));
+
+    let cancelledCount = 0;
     for (const order of expiredOrders) {
-      // Release the reserved product item
-      if (order.productItemId) {
-        await db
-          .update(productItems)
-          .set({ status: "available", reservedUntil: null })
-          .where(eq(productItems.id, order.productItemId));
-      }
-      
-      // Update order status to cancelled
-      await db
-        .update(orders)
-        .set({ status: "cancelled" })
-        .where(eq(orders.id, order.id));
+      await db.transaction(async (tx) => {
+        // Cancel only if still unpaid (bank reconciliation or an admin may have settled it since
+        // the select), then release all of its reserved items and flash sale quota
+        const [cancelled] = await tx
+          .update(orders)
+          .set({ status: "cancelled" })
+          .where(and(eq(orders.id, order.id), eq(orders.status, "pending_payment")))
+          .returning();
+        if (!cancelled) return;
+        await this.releaseOrderItems(order.id, tx);
+        await this.returnFlashSaleQuota(tx, cancelled);
+        cancelledCount++;
+      });
     }
 
-    return expiredOrders.length;
+    return cancelledCount;
   }
 
   async productHasOrders(productId: string): Promise<boolean> {
@@ -704,23 +1156,8 @@ export class DatabaseStorage implements IStorage {
       .where(eq(productItems.productId, productId));
   }
 
-  async getAvailableProductItem(productId: string): Promise<ProductItem | undefined> {
-    const [item] = await db
-      .select()
-      .from(productItems)
-      .where(
-        and(
-          eq(productItems.productId, productId),
-          eq(productItems.status, "available")
-        )
-      )
-      .limit(1);
-    return item;
-  }
-
-  async getAvailableProductItems(productId: string, count: number): Promise<ProductItem[]> {
-    // First, reset any expired reservations
-    await db
+  private async releaseExpiredReservations(productId: string, tx: DbTransaction | typeof db = db): Promise<void> {
+    await tx
       .update(productItems)
       .set({ status: "available", reservedUntil: null })
       .where(
@@ -730,38 +1167,96 @@ export class DatabaseStorage implements IStorage {
           lt(productItems.reservedUntil, new Date())
         )
       );
-    
-    // Then get available items
-    return await db
+  }
+
+  // Marks `count` available items sold and returns them, or throws OrderError without
+  // claiming anything (with allowFewer, sells what there is instead). SKIP LOCKED lets parallel
+  // buyers each take different rows instead of reading the same "available" line; pass the
+  // order's tx so a later failure un-sells them.
+  async claimProductItems(productId: string, count: number, tx?: DbTransaction, allowFewer = false): Promise<ProductItem[]> {
+    if (!tx) {
+      return await db.transaction((t) => this.claimProductItems(productId, count, t, allowFewer));
+    }
+
+    await this.releaseExpiredReservations(productId, tx);
+    const items = await tx
       .select()
       .from(productItems)
-      .where(
-        and(
-          eq(productItems.productId, productId),
-          eq(productItems.status, "available")
-        )
-      )
-      .limit(count);
-  }
+      .where(and(eq(productItems.productId, productId), eq(productItems.status, "available")))
+      .limit(count)
+      .for("update", { skipLocked: true });
+    if (items.length < count && !allowFewer) {
+      throw new OrderError(`Không đủ sản phẩm. Chỉ còn ${items.length} sản phẩm có sẵn.`);
+    }
+    if (items.length === 0) return items;
 
-  async createProductItems(items: InsertProductItem[]): Promise<ProductItem[]> {
-    if (items.length === 0) return [];
-    return await db.insert(productItems).values(items).returning();
+    await tx
+      .update(productItems)
+      .set({ status: "sold", reservedUntil: null })
+      .where(inArray(productItems.id, items.map((item) => item.id)));
+    return items;
   }
 
-  async updateProductItemStatus(id: string, status: "available" | "reserved" | "sold"): Promise<ProductItem> {
-    const [item] = await db
+  // Same as claimProductItems but holds the items for a pending (QR) order until reservedUntil
+  async reserveProductItems(productId: string, count: number, reservedUntil: Date, tx?: DbTransaction): Promise<ProductItem[]> {
+    if (!tx) {
+      return await db.transaction((t) => this.reserveProductItems(productId, count, reservedUntil, t));
+    }
+
+    await this.releaseExpiredReservations(productId, tx);
+    const items = await tx
+      .select()
+      .from(productItems)
+      .where(and(eq(productItems.productId, productId), eq(productItems.status, "available")))
+      .limit(count)
+      .for("update", { skipLocked: true });
+    if (items.length < count) {
+      throw new OrderError(`Không đủ sản phẩm. Chỉ còn ${items.length} sản phẩm có sẵn.`);
+    }
+
+    return await tx
       .update(productItems)
-      .set({ status, reservedUntil: status === "sold" || status === "available" ? null : undefined })
-      .where(eq(productItems.id, id))
+      .set({ status: "reserved", reservedUntil })
+      .where(inArray(productItems.id, items.map((item) => item.id)))
       .returning();
-    return item;
   }
 
-  async reserveProductItem(id: string, reservedUntil: Date): Promise<ProductItem> {
+  // products.stock for account products is the number of items still available to sell
+  async syncProductStock(productId: string, tx: DbTransaction | typeof db = db): Promise<Product> {
+    const [product] = await tx
+      .update(products)
+      .set({
+        stock: sql`(SELECT count(*)::int FROM ${productItems} WHERE ${productItems.productId} = ${productId} AND ${productItems.status} = 'available')`,
+        updatedAt: new Date(),
+      })
+      .where(eq(products.id, productId))
+      .returning();
+
+    // Sold out: the next restock is news again for wishlisting buyers
+    if (product?.stock === 0) {
+      await tx
+        .update(wishlists)
+        .set({ restockNotifiedAt: null })
+        .where(and(eq(wishlists.productId, productId), sql`${wishlists.restockNotifiedAt} IS NOT NULL`));
+    }
+    return product;
+  }
+
+  async createProductItems(items: InsertProductItem[], tx: DbTransaction | typeof db = db): Promise<ProductItem[]> {
+    if (items.length === 0) return [];
+    // uidHash comes from the plaintext, so duplicate checks keep working on encrypted rows
+    const sealed = items.map((item) => ({
+      ...item,
+      uidHash: item.uidHash ?? hashUid(item.content),
+      content: encryptContent(item.content),
+    }));
+    return await tx.insert(productItems).values(sealed).returning();
+  }
+
+  async updateProductItemStatus(id: string, status: "available" | "reserved" | "sold"): Promise<ProductItem> {
     const [item] = await db
       .update(productItems)
-      .set({ status: "reserved", reservedUntil })
+      .set({ status, reservedUntil: status === "sold" || status === "available" ? null : undefined })
       .where(eq(productItems.id, id))
       .returning();
     return item;
@@ -776,88 +1271,449 @@ export class DatabaseStorage implements IStorage {
     return !!existing;
   }
 
-  async deleteProductItem(id: string): Promise<void> {
-    await db.delete(productItems).where(eq(productItems.id, id));
+  // One query for the whole upload: the hashes go in as a single array parameter
+  async findExistingUidHashes(uidHashes: string[], tx: DbTransaction | typeof db = db): Promise<Set<string>> {
+    const hashes = Array.from(new Set(uidHashes.filter(Boolean)));
+    if (hashes.length === 0) return new Set();
+    const rows = await tx
+      .selectDistinct({ uidHash: productItems.uidHash })
+      .from(productItems)
+      .where(sql`${productItems.uidHash} = any(${sql.param(hashes)}::varchar[])`);
+    return new Set(rows.map((row) => row.uidHash!));
   }
 
-  async updateProductItemContent(id: string, content: string): Promise<ProductItem> {
-    const [item] = await db
-      .update(productItems)
-      .set({ content, uidHash: hashUid(content) })
-      .where(eq(productItems.id, id))
-      .returning();
-    return item;
+  // Item imports
+  async createItemImport(data: InsertItemImport): Promise<ItemImport> {
+    const [itemImport] = await db.insert(itemImports).values(data).returning();
+    return itemImport;
   }
 
-  // Orders
-  async getOrder(id: string): Promise<Order | undefined> {
-    const [order] = await db.select().from(orders).where(eq(orders.id, id));
-    return order;
+  async getItemImport(id: string): Promise<ItemImport | undefined> {
+    const [itemImport] = await db.select().from(itemImports).where(eq(itemImports.id, id));
+    return itemImport;
   }
 
-  async getOrderWithDetails(id: string): Promise<(Order & { product: Product; buyer: User; seller: User; productItem?: ProductItem }) | undefined> {
-    const result = await db
+  async getSellerItemImports(sellerId: string): Promise<ItemImport[]> {
+    return await db
       .select()
-      .from(orders)
-      .innerJoin(products, eq(orders.productId, products.id))
-      .innerJoin(users, eq(orders.buyerId, users.id))
-      .where(eq(orders.id, id));
+      .from(itemImports)
+      .where(eq(itemImports.sellerId, sellerId))
+      .orderBy(desc(itemImports.createdAt))
+      .limit(50);
+  }
 
-    if (result.length === 0) return undefined;
+  async cancelItemImport(id: string, sellerId: string): Promise<ItemImport | undefined> {
+    const [itemImport] = await db
+      .update(itemImports)
+      .set({ status: "cancelled", payload: null })
+      .where(and(eq(itemImports.id, id), eq(itemImports.sellerId, sellerId), eq(itemImports.status, "pending")))
+      .returning();
+    return itemImport;
+  }
 
-    const order = result[0].orders;
-    const product = result[0].products;
-    const buyer = result[0].users;
+  /**
+   * Adds an import's valid lines to a product. Lines whose account was added elsewhere since
+   * the preview are skipped. Returns undefined if the import is no longer pending.
+   */
+  async commitItemImport(id: string, productId: string, tx?: DbTransaction): Promise<{ itemImport: ItemImport; items: ProductItem[]; skipped: number } | undefined> {
+    if (!tx) {
+      return await db.transaction((t) => this.commitItemImport(id, productId, t));
+    }
 
-    const [sellerResult] = await db
+    const [pending] = await tx
       .select()
-      .from(users)
-      .where(eq(users.id, order.sellerId));
+      .from(itemImports)
+      .where(and(eq(itemImports.id, id), eq(itemImports.status, "pending"), gte(itemImports.expiresAt, sql`now()`)))
+      .for("update");
+    if (!pending?.payload) return undefined;
+
+    const staged: Pick<InsertProductItem, "content" | "accountFields">[] = JSON.parse(decryptContent(pending.payload));
+    const existing = await this.findExistingUidHashes(staged.map((line) => hashUid(line.content)), tx);
+    const fresh = staged.filter((line) => !existing.has(hashUid(line.content)));
+
+    const items = await this.createProductItems(
+      fresh.map((line) => ({
+        productId,
+        content: line.content,
+        accountFormat: pending.accountFormat,
+        accountFields: line.accountFields,
+        status: "available" as const,
+      })),
+      tx
+    );
 
-    let productItem: ProductItem | undefined;
-    if (order.productItemId) {
-      const [item] = await db
-        .select()
-        .from(productItems)
-        .where(eq(productItems.id, order.productItemId));
-      productItem = item;
-    }
+    const [itemImport] = await tx
+      .update(itemImports)
+      .set({ status: "committed", productId, payload: null, committedCount: items.length, committedAt: new Date() })
+      .where(eq(itemImports.id, id))
+      .returning();
+    await this.syncProductStock(productId, tx);
 
-    return { ...order, product, buyer, seller: sellerResult, productItem };
+    return { itemImport, items, skipped: staged.length - fresh.length };
   }
 
-  async getBuyerOrders(buyerId: string): Promise<(Order & { product: Product })[]> {
-    const result = await db
-      .select()
-      .from(orders)
-      .innerJoin(products, eq(orders.productId, products.id))
-      .where(eq(orders.buyerId, buyerId))
-      .orderBy(desc(orders.createdAt));
+  // New product stocked from an import. Both commit together, so an import that expired or was
+  // committed meanwhile (OrderError) leaves no empty product behind.
+  async createProductFromImport(productData: InsertProduct, importId: string): Promise<{ product: Product; itemImport: ItemImport; items: ProductItem[]; skipped: number }> {
+    return await db.transaction(async (tx) => {
+      const [created] = await tx.insert(products).values(productData).returning();
+      const committed = await this.commitItemImport(importId, created.id, tx);
+      if (!committed) {
+        throw new OrderError("Lượt nhập đã hết hạn hoặc đã được xử lý, vui lòng tải lên lại");
+      }
+      const [product] = await tx.select().from(products).where(eq(products.id, created.id));
+      return { product, ...committed };
+    });
+  }
 
-    return result.map((r) => ({ ...r.orders, product: r.products }));
+  async expireItemImports(): Promise<number> {
+    const expired = await db
+      .update(itemImports)
+      .set({ status: "expired", payload: null })
+      .where(and(eq(itemImports.status, "pending"), lt(itemImports.expiresAt, sql`now()`)))
+      .returning({ id: itemImports.id });
+    return expired.length;
   }
 
-  async getSellerOrders(sellerId: string): Promise<(Order & { product: Product })[]> {
-    const result = await db
+  // Item health checks. Only unsold items are checked; dead ones too, so a recovered account
+  // goes back on sale.
+  async getItemsForHealthCheck(productId: string, afterId: string | null, limit: number): Promise<ProductItem[]> {
+    return await db
       .select()
-      .from(orders)
-      .innerJoin(products, eq(orders.productId, products.id))
-      .where(eq(orders.sellerId, sellerId))
-      .orderBy(desc(orders.createdAt));
+      .from(productItems)
+      .where(
+        and(
+          eq(productItems.productId, productId),
+          inArray(productItems.status, ["available", "dead"]),
+          afterId ? sql`${productItems.id} > ${afterId}` : undefined
+        )
+      )
+      .orderBy(asc(productItems.id))
+      .limit(limit);
+  }
+
+  // The status guard leaves items that were reserved or sold while the check ran untouched
+  async applyItemCheckResults(results: { id: string; verdict: "live" | "dead"; reason?: string }[]): Promise<void> {
+    const unsold = inArray(productItems.status, ["available", "dead"]);
+    const live = results.filter((result) => result.verdict === "live").map((result) => result.id);
+    const deadByReason = new Map<string, string[]>();
+    for (const result of results) {
+      if (result.verdict !== "dead") continue;
+      const reason = result.reason || "";
+      deadByReason.set(reason, [...(deadByReason.get(reason) ?? []), result.id]);
+    }
 
-    return result.map((r) => ({ ...r.orders, product: r.products }));
+    await db.transaction(async (tx) => {
+      if (live.length > 0) {
+        await tx
+          .update(productItems)
+          .set({ status: "available", checkedAt: new Date(), checkNote: null })
+          .where(and(inArray(productItems.id, live), unsold));
+      }
+      for (const [reason, ids] of Array.from(deadByReason.entries())) {
+        await tx
+          .update(productItems)
+          .set({ status: "dead", checkedAt: new Date(), checkNote: reason || null })
+          .where(and(inArray(productItems.id, ids), unsold));
+      }
+    });
   }
 
-  async getPendingOrders(): Promise<(Order & { product: Product; buyer: User })[]> {
-    const result = await db
-      .select()
-      .from(orders)
-      .innerJoin(products, eq(orders.productId, products.id))
-      .innerJoin(users, eq(orders.buyerId, users.id))
-      .where(eq(orders.status, "pending_confirmation"))
-      .orderBy(desc(orders.createdAt));
-
-    return result.map((r) => ({ ...r.orders, product: r.products, buyer: r.users }));
+  async getItemHealthSummary(productId: string): Promise<{ live: number; dead: number; unchecked: number }> {
+    const [summary] = await db
+      .select({
+        live: sql<number>`count(*) filter (where ${productItems.status} = 'available' and ${productItems.checkedAt} is not null)::int`,
+        dead: sql<number>`count(*) filter (where ${productItems.status} = 'dead')::int`,
+        unchecked: sql<number>`count(*) filter (where ${productItems.status} = 'available' and ${productItems.checkedAt} is null)::int`,
+      })
+      .from(productItems)
+      .where(eq(productItems.productId, productId));
+    return summary;
+  }
+
+  // Recomputes stock (dead items don't count) and the live rate shown to buyers
+  async refreshProductLiveRate(productId: string): Promise<Product> {
+    const { live, dead } = await this.getItemHealthSummary(productId);
+    await db
+      .update(products)
+      .set({
+        liveRate: live + dead > 0 ? Math.round((live * 100) / (live + dead)) : null,
+        itemsCheckedAt: new Date(),
+      })
+      .where(eq(products.id, productId));
+    return await this.syncProductStock(productId);
+  }
+
+  // A product has at most one queued or running check; asking again returns that one
+  async queueItemCheckRun(productId: string, requestedBy: string | null): Promise<ItemCheckRun> {
+    const [active] = await db
+      .select()
+      .from(itemCheckRuns)
+      .where(and(eq(itemCheckRuns.productId, productId), inArray(itemCheckRuns.status, ["queued", "running"])));
+    if (active) return active;
+
+    const [run] = await db.insert(itemCheckRuns).values({ productId, requestedBy }).returning();
+    return run;
+  }
+
+  async claimNextItemCheckRun(): Promise<ItemCheckRun | undefined> {
+    // A run still "running" after an hour belonged to an instance that died mid-check
+    await db
+      .update(itemCheckRuns)
+      .set({ status: "failed", error: "Bị gián đoạn", finishedAt: new Date() })
+      .where(and(eq(itemCheckRuns.status, "running"), lt(itemCheckRuns.startedAt, sql`now() - interval '1 hour'`)));
+
+    const [run] = await db
+      .update(itemCheckRuns)
+      .set({ status: "running", startedAt: new Date() })
+      .where(
+        eq(
+          itemCheckRuns.id,
+          sql`(SELECT ${itemCheckRuns.id} FROM ${itemCheckRuns} WHERE ${itemCheckRuns.status} = 'queued' ORDER BY ${itemCheckRuns.createdAt} LIMIT 1 FOR UPDATE SKIP LOCKED)`
+        )
+      )
+      .returning();
+    return run;
+  }
+
+  async finishItemCheckRun(id: string, data: Partial<ItemCheckRun>): Promise<ItemCheckRun> {
+    const [run] = await db
+      .update(itemCheckRuns)
+      .set({ ...data, finishedAt: new Date() })
+      .where(eq(itemCheckRuns.id, id))
+      .returning();
+    return run;
+  }
+
+  async getItemCheckRuns(productId: string, limit = 20): Promise<ItemCheckRun[]> {
+    return await db
+      .select()
+      .from(itemCheckRuns)
+      .where(eq(itemCheckRuns.productId, productId))
+      .orderBy(desc(itemCheckRuns.createdAt))
+      .limit(limit);
+  }
+
+  // Active account products with unsold items whose last check is older than checkedBefore;
+  // platforms limits it to those with a checker (null = any platform)
+  async getProductsDueForItemCheck(checkedBefore: Date, limit: number, platforms: string[] | null): Promise<Product[]> {
+    if (platforms?.length === 0) return [];
+
+    return await db
+      .select()
+      .from(products)
+      .where(
+        and(
+          eq(products.category, "account"),
+          eq(products.status, "active"),
+          or(isNull(products.itemsCheckedAt), lt(products.itemsCheckedAt, checkedBefore)),
+          platforms ? sql`lower(${products.platform}) = any(${sql.param(platforms)}::varchar[])` : undefined,
+          sql`exists (select 1 from ${productItems} where ${productItems.productId} = ${products.id} and ${productItems.status} in ('available', 'dead'))`,
+          sql`not exists (select 1 from ${itemCheckRuns} where ${itemCheckRuns.productId} = ${products.id} and ${itemCheckRuns.status} in ('queued', 'running'))`
+        )
+      )
+      .orderBy(sql`${products.itemsCheckedAt} asc nulls first`)
+      .limit(limit);
+  }
+
+  async deleteProductItem(id: string): Promise<void> {
+    await db.delete(productItems).where(eq(productItems.id, id));
+  }
+
+  async updateProductItemContent(id: string, content: string, accountFields?: Record<string, string>): Promise<ProductItem> {
+    const [item] = await db
+      .update(productItems)
+      .set({
+        content: encryptContent(content),
+        uidHash: hashUid(content),
+        accountFields,
+        // New credentials void the last health check; a dead account the seller fixed goes back on sale
+        status: sql`case when ${productItems.status} = 'dead' then 'available'::product_item_status else ${productItems.status} end`,
+        checkedAt: null,
+        checkNote: null,
+      })
+      .where(eq(productItems.id, id))
+      .returning();
+    return item;
+  }
+
+  // Orders
+  async getOrder(id: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.id, id));
+    return order;
+  }
+
+  async getOrderByCode(orderCode: string): Promise<Order | undefined> {
+    const [order] = await db.select().from(orders).where(eq(orders.orderCode, orderCode));
+    return order;
+  }
+
+  async getOrderItems(orderId: string): Promise<ProductItem[]> {
+    const result = await db
+      .select({ item: productItems })
+      .from(orderItems)
+      .innerJoin(productItems, eq(orderItems.productItemId, productItems.id))
+      .where(eq(orderItems.orderId, orderId))
+      .orderBy(asc(orderItems.createdAt));
+    return result.map((r) => r.item);
+  }
+
+  // Marks every item of a confirmed order sold and delivers their content. Items whose
+  // reservation lapsed and were sold to someone else are swapped for fresh stock.
+  async sellOrderItems(order: Order, tx?: DbTransaction): Promise<ProductItem[]> {
+    if (!tx) {
+      return await db.transaction((t) => this.sellOrderItems(order, t));
+    }
+    if (!Number.isInteger(order.quantity) || order.quantity < 1) {
+      throw new OrderError("Số lượng của đơn hàng không hợp lệ");
+    }
+
+    let linked = (
+      await tx
+        .select({ item: productItems })
+        .from(orderItems)
+        .innerJoin(productItems, eq(orderItems.productItemId, productItems.id))
+        .where(eq(orderItems.orderId, order.id))
+        .for("update", { of: productItems })
+    ).map((r) => r.item);
+
+    // Orders placed before order_items existed only recorded a single productItemId
+    if (linked.length === 0 && order.productItemId) {
+      linked = await tx.select().from(productItems).where(eq(productItems.id, order.productItemId)).for("update");
+    }
+
+    // Only items still reserved for this order are kept. One whose hold lapsed may since have
+    // been released and reserved or bought by another order; that one is replaced instead.
+    const ownIds = linked.length === 0 ? new Set<string>() : new Set(
+      (
+        await tx
+          .select({ id: productItems.id })
+          .from(productItems)
+          .where(
+            and(
+              inArray(productItems.id, linked.map((item) => item.id)),
+              eq(productItems.status, "reserved"),
+              notHeldByOtherOrder(order.id)
+            )
+          )
+      ).map((row) => row.id)
+    );
+    const kept = linked.filter((item) => ownIds.has(item.id)).slice(0, order.quantity);
+    if (kept.length > 0) {
+      await tx
+        .update(productItems)
+        .set({ status: "sold", reservedUntil: null })
+        .where(inArray(productItems.id, kept.map((item) => item.id)));
+    }
+
+    const replacements = kept.length < order.quantity
+      ? await this.claimProductItems(order.productId, order.quantity - kept.length, tx)
+      : [];
+    const items = [...kept, ...replacements];
+
+    await tx.delete(orderItems).where(eq(orderItems.orderId, order.id));
+    await tx.insert(orderItems).values(items.map((item) => ({ orderId: order.id, productItemId: item.id })));
+    await tx
+      .update(orders)
+      .set({
+        productItemId: items[0].id,
+        deliveredContent: encryptContent(itemContents(items)),
+        updatedAt: new Date(),
+      })
+      .where(eq(orders.id, order.id));
+    await this.syncProductStock(order.productId, tx);
+    return items;
+  }
+
+  // Puts an order's reserved items back on sale. Items that another live order has since
+  // reserved or bought (after this order's hold lapsed) are left alone.
+  async releaseOrderItems(orderId: string, tx?: DbTransaction): Promise<number> {
+    if (!tx) {
+      return await db.transaction((t) => this.releaseOrderItems(orderId, t));
+    }
+
+    const released = await tx
+      .update(productItems)
+      .set({ status: "available", reservedUntil: null })
+      .where(
+        and(
+          eq(productItems.status, "reserved"),
+          sql`${productItems.id} IN (SELECT ${orderItems.productItemId} FROM ${orderItems} WHERE ${orderItems.orderId} = ${orderId})`,
+          notHeldByOtherOrder(orderId)
+        )
+      )
+      .returning();
+
+    const productIds = Array.from(new Set(released.map((item) => item.productId)));
+    for (const productId of productIds) {
+      await this.syncProductStock(productId, tx);
+    }
+    return released.length;
+  }
+
+  async getOrderWithDetails(id: string): Promise<(Order & { product: Product; buyer: User; seller: User; productItem?: ProductItem }) | undefined> {
+    const result = await db
+      .select()
+      .from(orders)
+      .innerJoin(products, eq(orders.productId, products.id))
+      .innerJoin(users, eq(orders.buyerId, users.id))
+      .where(eq(orders.id, id));
+
+    if (result.length === 0) return undefined;
+
+    const order = result[0].orders;
+    const product = result[0].products;
+    const buyer = result[0].users;
+
+    const [sellerResult] = await db
+      .select()
+      .from(users)
+      .where(eq(users.id, order.sellerId));
+
+    let productItem: ProductItem | undefined;
+    if (order.productItemId) {
+      const [item] = await db
+        .select()
+        .from(productItems)
+        .where(eq(productItems.id, order.productItemId));
+      productItem = item;
+    }
+
+    return { ...order, product, buyer, seller: sellerResult, productItem };
+  }
+
+  async getBuyerOrders(buyerId: string): Promise<(Order & { product: Product })[]> {
+    const result = await db
+      .select()
+      .from(orders)
+      .innerJoin(products, eq(orders.productId, products.id))
+      .where(eq(orders.buyerId, buyerId))
+      .orderBy(desc(orders.createdAt));
+
+    return result.map((r) => ({ ...r.orders, product: r.products }));
+  }
+
+  async getSellerOrders(sellerId: string): Promise<(Order & { product: Product })[]> {
+    const result = await db
+      .select()
+      .from(orders)
+      .innerJoin(products, eq(orders.productId, products.id))
+      .where(eq(orders.sellerId, sellerId))
+      .orderBy(desc(orders.createdAt));
+
+    return result.map((r) => ({ ...r.orders, product: r.products }));
+  }
+
+  async getPendingOrders(): Promise<(Order & { product: Product; buyer: User })[]> {
+    const result = await db
+      .select()
+      .from(orders)
+      .innerJoin(products, eq(orders.productId, products.id))
+      .innerJoin(users, eq(orders.buyerId, users.id))
+      .where(eq(orders.status, "pending_confirmation"))
+      .orderBy(desc(orders.createdAt));
+
+    return result.map((r) => ({ ...r.orders, product: r.products, buyer: r.users }));
   }
 
   async getAllOrders(): Promise<(Order & { product: Product; buyer: User; seller: User | null })[]> {
@@ -883,7 +1739,7 @@ export class DatabaseStorage implements IStorage {
   }
 
   async createOrder(orderData: InsertOrder): Promise<Order> {
-    const orderCode = `DH-${Date.now().toString().slice(-8)}${Math.random().toString(36).slice(-4).toUpperCase()}`;
+    const orderCode = generateOrderCode();
     const [order] = await db.insert(orders).values({
       ...orderData,
       orderCode,
@@ -912,17 +1768,45 @@ export class DatabaseStorage implements IStorage {
   async updateOrderDeliveredContent(id: string, content: string): Promise<Order> {
     const [order] = await db
       .update(orders)
-      .set({ deliveredContent: content, updatedAt: new Date() })
+      .set({ deliveredContent: encryptContent(content), updatedAt: new Date() })
       .where(eq(orders.id, id))
       .returning();
     return order;
   }
 
   async deleteOrder(id: string): Promise<void> {
-    // Delete reviews first (foreign key dependency)
-    await db.delete(reviews).where(eq(reviews.orderId, id));
-    // Then delete order
-    await db.delete(orders).where(eq(orders.id, id));
+    await db.transaction(async (tx) => {
+      const [order] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!order) return;
+      // Put any reserved items and unpaid flash sale quota back before the order is dropped
+      await this.releaseOrderItems(id, tx);
+      if (PENDING_ORDER_STATUSES.includes(order.status)) {
+        await this.returnFlashSaleQuota(tx, order);
+      }
+      // Delete reviews first (foreign key dependency)
+      await tx.delete(reviews).where(eq(reviews.orderId, id));
+      // Then delete order
+      await tx.delete(orders).where(eq(orders.id, id));
+    });
+  }
+
+  // Admin cancel: releases the order's reserved items, and its flash sale quota if it was never paid
+  async cancelOrder(id: string): Promise<Order | undefined> {
+    return await db.transaction(async (tx) => {
+      const [current] = await tx.select().from(orders).where(eq(orders.id, id)).for("update");
+      if (!current) return undefined;
+
+      const [order] = await tx
+        .update(orders)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(eq(orders.id, id))
+        .returning();
+      await this.releaseOrderItems(id, tx);
+      if (PENDING_ORDER_STATUSES.includes(current.status)) {
+        await this.returnFlashSaleQuota(tx, current);
+      }
+      return order;
+    });
   }
 
   // Wallet Transactions
@@ -993,14 +1877,63 @@ export class DatabaseStorage implements IStorage {
     return withdrawal;
   }
 
+  // Marks an approved withdrawal completed and debits the seller in one transaction.
+  // Returns undefined if it was not in "approved" state (already completed by someone else).
+  async completeWithdrawal(id: string): Promise<Withdrawal | undefined> {
+    return await db.transaction(async (tx) => {
+      const [withdrawal] = await tx
+        .update(withdrawals)
+        .set({ status: "completed", processedAt: new Date() })
+        .where(and(eq(withdrawals.id, id), eq(withdrawals.status, "approved")))
+        .returning();
+      if (!withdrawal) return undefined;
+
+      await ledger.debit({
+        userId: withdrawal.sellerId,
+        amount: withdrawal.amount,
+        reason: "Withdrawal completed",
+      }, tx);
+      return withdrawal;
+    });
+  }
+
   // Files
   async createFile(fileData: InsertFile): Promise<FileRecord> {
     const [file] = await db.insert(files).values(fileData).returning();
     return file;
   }
 
+  // Newest version first
   async getProductFiles(productId: string): Promise<FileRecord[]> {
-    return await db.select().from(files).where(eq(files.productId, productId));
+    return await db.select().from(files).where(eq(files.productId, productId)).orderBy(desc(files.createdAt));
+  }
+
+  async getFile(id: string): Promise<FileRecord | undefined> {
+    const [file] = await db.select().from(files).where(eq(files.id, id));
+    return file;
+  }
+
+  // Everyone holding a paid order for the product, once each
+  async getProductBuyerIds(productId: string): Promise<string[]> {
+    const rows = await db
+      .selectDistinct({ buyerId: orders.buyerId })
+      .from(orders)
+      .where(and(eq(orders.productId, productId), eq(orders.status, "paid")));
+    return rows.map((row) => row.buyerId);
+  }
+
+  async recordFileDownload(data: InsertFileDownload): Promise<void> {
+    await db.insert(fileDownloads).values(data);
+  }
+
+  // Downloads per file for one order, keyed by file id
+  async getOrderDownloadCounts(orderId: string): Promise<Record<string, number>> {
+    const rows = await db
+      .select({ fileId: fileDownloads.fileId, count: count() })
+      .from(fileDownloads)
+      .where(eq(fileDownloads.orderId, orderId))
+      .groupBy(fileDownloads.fileId);
+    return Object.fromEntries(rows.map((row) => [row.fileId, row.count]));
   }
 
   // Admin Logs
@@ -1349,6 +2282,79 @@ export class DatabaseStorage implements IStorage {
     return deposit;
   }
 
+  // Approves a pending deposit and credits the wallet in one transaction.
+  // Returns undefined if the deposit was already processed.
+  async approveDeposit(id: string): Promise<{ deposit: Deposit; transaction: WalletTransaction } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [deposit] = await tx
+        .update(deposits)
+        .set({ status: "approved", adminNote: null, processedAt: new Date() })
+        .where(and(eq(deposits.id, id), eq(deposits.status, "pending")))
+        .returning();
+      if (!deposit) return undefined;
+
+      const transaction = await ledger.credit({
+        userId: deposit.userId,
+        amount: deposit.amount,
+        reason: `Nạp tiền - Mã GD: ${deposit.transactionCode}`,
+      }, tx);
+      return { deposit, transaction };
+    });
+  }
+
+  // Pending deposit whose transaction code appears in a bank memo (both compared as bare A-Z0-9).
+  // Codes shorter than 6 characters are ignored - too likely to occur by chance.
+  async findPendingDepositByMemo(normalizedMemo: string): Promise<Deposit | undefined> {
+    const code = sql`upper(regexp_replace(${deposits.transactionCode}, '[^a-zA-Z0-9]', '', 'g'))`;
+    const [deposit] = await db
+      .select()
+      .from(deposits)
+      .where(
+        and(
+          eq(deposits.status, "pending"),
+          sql`length(${code}) >= 6`,
+          sql`position(${code} in ${normalizedMemo}) > 0`
+        )
+      )
+      .orderBy(sql`length(${code}) desc`, asc(deposits.requestedAt))
+      .limit(1);
+    return deposit;
+  }
+
+  // Bank Transactions
+  // Undefined when the provider already sent this transaction (webhook retries, re-uploaded statement)
+  async createBankTransaction(data: InsertBankTransaction): Promise<BankTransaction | undefined> {
+    const [transaction] = await db
+      .insert(bankTransactions)
+      .values(data)
+      .onConflictDoNothing({ target: [bankTransactions.provider, bankTransactions.externalId] })
+      .returning();
+    return transaction;
+  }
+
+  async getBankTransaction(id: string): Promise<BankTransaction | undefined> {
+    const [transaction] = await db.select().from(bankTransactions).where(eq(bankTransactions.id, id));
+    return transaction;
+  }
+
+  async getBankTransactions(statuses?: BankTransaction["status"][]): Promise<BankTransaction[]> {
+    return await db
+      .select()
+      .from(bankTransactions)
+      .where(statuses && statuses.length > 0 ? inArray(bankTransactions.status, statuses) : undefined)
+      .orderBy(desc(bankTransactions.createdAt))
+      .limit(500);
+  }
+
+  async updateBankTransaction(id: string, updates: Partial<InsertBankTransaction>): Promise<BankTransaction> {
+    const [transaction] = await db
+      .update(bankTransactions)
+      .set(updates)
+      .where(eq(bankTransactions.id, id))
+      .returning();
+    return transaction;
+  }
+
   // Conversations & Messages
   async createConversation(conversation: InsertConversation): Promise<Conversation> {
     const [result] = await db.insert(conversations).values(conversation).returning();
@@ -1360,6 +2366,15 @@ export class DatabaseStorage implements IStorage {
     return conv;
   }
 
+  // Everyone the user has a conversation with (for presence updates)
+  async getConversationPartnerIds(userId: string): Promise<string[]> {
+    const rows = await db
+      .select({ participant1Id: conversations.participant1Id, participant2Id: conversations.participant2Id })
+      .from(conversations)
+      .where(or(eq(conversations.participant1Id, userId), eq(conversations.participant2Id, userId)));
+    return Array.from(new Set(rows.map((row) => (row.participant1Id === userId ? row.participant2Id : row.participant1Id))));
+  }
+
   async getUserConversations(userId: string): Promise<(Conversation & { participant1: User; participant2: User; lastMessage?: Message })[]> {
     const result = await db
       .select()
@@ -1419,8 +2434,9 @@ export class DatabaseStorage implements IStorage {
     return result.map((r) => ({ ...r.messages, sender: r.users }));
   }
 
-  async markMessagesAsRead(conversationId: string, userId: string): Promise<void> {
-    await db
+  // Returns how many messages were newly marked read
+  async markMessagesAsRead(conversationId: string, userId: string): Promise<number> {
+    const read = await db
       .update(messages)
       .set({ isRead: true })
       .where(
@@ -1429,7 +2445,9 @@ export class DatabaseStorage implements IStorage {
           ne(messages.senderId, userId),
           eq(messages.isRead, false)
         )
-      );
+      )
+      .returning({ id: messages.id });
+    return read.length;
   }
 
   async getUnreadMessageCount(userId: string): Promise<number> {
@@ -1601,6 +2619,86 @@ export class DatabaseStorage implements IStorage {
       .limit(50);
   }
 
+  async getNotificationsSince(userId: string, since: Date): Promise<Notification[]> {
+    return db
+      .select()
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), gte(notifications.createdAt, since)))
+      .orderBy(asc(notifications.createdAt));
+  }
+
+  // Email Outbox
+  async queueEmail(data: InsertEmailOutbox): Promise<EmailOutbox> {
+    const [email] = await db.insert(emailOutbox).values(data).returning();
+    return email;
+  }
+
+  // Takes up to `limit` due emails. Claimed rows get a 10 minute lease via nextAttemptAt, so
+  // an email whose sender crashed mid-send is picked up again rather than stuck in "sending".
+  async claimDueEmails(limit: number): Promise<EmailOutbox[]> {
+    return await db.transaction(async (tx) => {
+      const due = await tx
+        .select({ id: emailOutbox.id })
+        .from(emailOutbox)
+        .where(and(inArray(emailOutbox.status, ["pending", "sending"]), lte(emailOutbox.nextAttemptAt, new Date())))
+        .orderBy(asc(emailOutbox.nextAttemptAt))
+        .limit(limit)
+        .for("update", { skipLocked: true });
+      if (due.length === 0) return [];
+
+      return tx
+        .update(emailOutbox)
+        .set({
+          status: "sending",
+          attempts: sql`${emailOutbox.attempts} + 1`,
+          nextAttemptAt: new Date(Date.now() + 10 * 60 * 1000),
+        })
+        .where(inArray(emailOutbox.id, due.map((row) => row.id)))
+        .returning();
+    });
+  }
+
+  async markEmailSent(id: string): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({ status: "sent", sentAt: new Date(), lastError: null })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  // retryAt null gives up on the email
+  async markEmailFailed(id: string, error: string, retryAt: Date | null): Promise<void> {
+    await db
+      .update(emailOutbox)
+      .set({ status: retryAt ? "pending" : "failed", lastError: error, ...(retryAt ? { nextAttemptAt: retryAt } : {}) })
+      .where(eq(emailOutbox.id, id));
+  }
+
+  async getEmailOutbox(status?: "pending" | "sending" | "sent" | "failed"): Promise<EmailOutbox[]> {
+    return db
+      .select()
+      .from(emailOutbox)
+      .where(status ? eq(emailOutbox.status, status) : undefined)
+      .orderBy(desc(emailOutbox.createdAt))
+      .limit(200);
+  }
+
+  // Users on the daily digest whose last one went out over a day ago
+  async getDigestRecipients(): Promise<{ settings: NotificationSettings; user: User }[]> {
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+    const rows = await db
+      .select()
+      .from(notificationSettings)
+      .innerJoin(users, eq(notificationSettings.userId, users.id))
+      .where(
+        and(
+          eq(notificationSettings.emailNotifications, true),
+          eq(notificationSettings.emailDigest, true),
+          or(isNull(notificationSettings.lastDigestSentAt), lt(notificationSettings.lastDigestSentAt, dayAgo))
+        )
+      );
+    return rows.map((row) => ({ settings: row.notification_settings, user: row.users }));
+  }
+
   async getUnreadNotificationsCount(userId: string): Promise<number> {
     const [result] = await db
       .select({ count: count() })
@@ -1704,18 +2802,6 @@ export class DatabaseStorage implements IStorage {
       .where(eq(userReferralCodes.userId, userId));
   }
 
-  async creditUserWallet(userId: string, amount: string): Promise<void> {
-    const numericAmount = parseFloat(amount);
-    if (isNaN(numericAmount) || numericAmount <= 0) return;
-    
-    await db
-      .update(users)
-      .set({
-        walletBalance: sql`COALESCE(${users.walletBalance}, 0) + ${numericAmount}::numeric`,
-      })
-      .where(eq(users.id, userId));
-  }
-
   // Flash Sales
   async createFlashSale(data: InsertFlashSale): Promise<FlashSale> {
     const [sale] = await db.insert(flashSales).values(data).returning();
@@ -1742,6 +2828,33 @@ export class DatabaseStorage implements IStorage {
       .orderBy(asc(flashSales.endTime));
   }
 
+  // Marks sales that have started as announced; each sale is returned exactly once, so
+  // only one caller ever sends its notifications
+  async claimStartedFlashSales(): Promise<FlashSale[]> {
+    const now = new Date();
+    return db
+      .update(flashSales)
+      .set({ announcedAt: now })
+      .where(
+        and(
+          eq(flashSales.isActive, true),
+          isNull(flashSales.announcedAt),
+          lte(flashSales.startTime, now),
+          gte(flashSales.endTime, now)
+        )
+      )
+      .returning();
+  }
+
+  async deactivateEndedFlashSales(): Promise<number> {
+    const ended = await db
+      .update(flashSales)
+      .set({ isActive: false })
+      .where(and(eq(flashSales.isActive, true), lt(flashSales.endTime, new Date())))
+      .returning({ id: flashSales.id });
+    return ended.length;
+  }
+
   async getAllFlashSales(): Promise<FlashSale[]> {
     return db.select().from(flashSales).orderBy(desc(flashSales.createdAt));
   }
@@ -1791,6 +2904,34 @@ export class DatabaseStorage implements IStorage {
     return { ...results[0].flash_sale_products, flashSale: results[0].flash_sales };
   }
 
+  async incrementFlashSaleSoldQuantity(id: string, quantity: number, enforceLimit = true, tx: DbTransaction | typeof db = db): Promise<boolean> {
+    // Single conditional UPDATE so concurrent buyers cannot oversell the quota
+    const conditions = [eq(flashSaleProducts.id, id)];
+    if (enforceLimit) {
+      conditions.push(
+        or(
+          isNull(flashSaleProducts.maxQuantity),
+          sql`${flashSaleProducts.soldQuantity} + ${quantity} <= ${flashSaleProducts.maxQuantity}`
+        )!
+      );
+    }
+    const result = await tx
+      .update(flashSaleProducts)
+      .set({ soldQuantity: sql`${flashSaleProducts.soldQuantity} + ${quantity}` })
+      .where(and(...conditions))
+      .returning();
+    return result.length > 0;
+  }
+
+  // Gives back the flash sale slots a pending order held
+  private async returnFlashSaleQuota(tx: DbTransaction, order: Order): Promise<void> {
+    if (!order.flashSaleProductId) return;
+    await tx
+      .update(flashSaleProducts)
+      .set({ soldQuantity: sql`GREATEST(${flashSaleProducts.soldQuantity} - ${order.quantity}, 0)` })
+      .where(eq(flashSaleProducts.id, order.flashSaleProductId));
+  }
+
   // Wishlists
   async addToWishlist(data: InsertWishlist): Promise<Wishlist> {
     const [wishlist] = await db.insert(wishlists).values(data).returning();
@@ -1829,6 +2970,33 @@ export class DatabaseStorage implements IStorage {
     return db.select().from(wishlists).where(and(eq(wishlists.productId, productId), eq(wishlists.notifyOnPriceDrop, true)));
   }
 
+  // Wishlist rows that should hear about `newPrice`: below the price they saved the product
+  // at and not already announced. Marking them in the same UPDATE means concurrent callers
+  // (admin edit + flash sale job) never announce the same drop twice.
+  async claimWishlistPriceDrops(productId: string, newPrice: string): Promise<Wishlist[]> {
+    return db
+      .update(wishlists)
+      .set({ lastNotifiedPrice: newPrice })
+      .where(
+        and(
+          eq(wishlists.productId, productId),
+          eq(wishlists.notifyOnPriceDrop, true),
+          sql`${wishlists.priceAtAdd} > ${newPrice}::numeric`,
+          or(isNull(wishlists.lastNotifiedPrice), sql`${wishlists.lastNotifiedPrice} <> ${newPrice}::numeric`)
+        )
+      )
+      .returning();
+  }
+
+  // Once per sell-out: syncProductStock clears restockNotifiedAt when stock reaches zero
+  async claimWishlistRestocks(productId: string): Promise<Wishlist[]> {
+    return db
+      .update(wishlists)
+      .set({ restockNotifiedAt: new Date() })
+      .where(and(eq(wishlists.productId, productId), eq(wishlists.notifyOnRestock, true), isNull(wishlists.restockNotifiedAt)))
+      .returning();
+  }
+
   // Bundles
   async createBundle(data: InsertBundle): Promise<Bundle> {
     const [bundle] = await db.insert(bundles).values(data).returning();
@@ -1894,6 +3062,532 @@ export class DatabaseStorage implements IStorage {
     await db.delete(bundleItems).where(eq(bundleItems.id, id));
   }
 
+  // Wallet checkout of a bundle: charges bundlePrice, pulls every component's items and
+  // splits the seller earnings in one transaction, so a shortage anywhere sells nothing
+  async createBundleOrder(buyerId: string, bundleId: string, quantity: number): Promise<{ order: Order; bundle: Bundle; sellerShares: { sellerId: string; amount: string }[] }> {
+    const bundle = await this.getBundleWithItems(bundleId);
+    if (!bundle || !bundle.isActive) {
+      throw new OrderError("Bundle không tồn tại hoặc đã ngừng bán", 404);
+    }
+    if (bundle.items.length === 0) {
+      throw new OrderError("Bundle chưa có sản phẩm nào");
+    }
+
+    const totalPrice = (parseFloat(bundle.bundlePrice) * quantity).toFixed(2);
+
+    return await db.transaction(async (tx) => {
+      const [stocked] = await tx
+        .update(bundles)
+        .set({ stock: sql`${bundles.stock} - ${quantity}`, updatedAt: new Date() })
+        .where(and(eq(bundles.id, bundleId), gte(bundles.stock, quantity)))
+        .returning();
+      if (!stocked) {
+        throw new OrderError(`Bundle chỉ còn ${bundle.stock} bộ`);
+      }
+
+      const sections: string[] = [];
+      const soldItems: ProductItem[] = [];
+      for (const component of bundle.items) {
+        if (component.product.category !== "account") continue;
+
+        const needed = component.quantity * quantity;
+        const items = await this.claimProductItems(component.productId, needed, tx);
+        await this.syncProductStock(component.productId, tx);
+
+        soldItems.push(...items);
+        sections.push(`=== ${component.product.title} ===\n${itemContents(items)}`);
+      }
+
+      // The order is filed under the first component, whose verification window and warranty
+      // policy it gets (replacements and claims also draw on that product)
+      const orderProduct = bundle.items[0].product;
+      const [order] = await tx
+        .insert(orders)
+        .values({
+          orderCode: generateOrderCode(),
+          buyerId,
+          sellerId: bundle.sellerId,
+          productId: orderProduct.id,
+          productItemId: soldItems[0]?.id,
+          bundleId: bundle.id,
+          quantity,
+          price: totalPrice,
+          paymentMethod: "wallet",
+          status: "paid",
+          deliveredContent: sections.length > 0 ? encryptContent(sections.join("\n\n")) : null,
+          verifyUntil: verificationDeadline(orderProduct),
+        })
+        .returning();
+
+      if (soldItems.length > 0) {
+        await tx.insert(orderItems).values(soldItems.map((item) => ({ orderId: order.id, productItemId: item.id })));
+      }
+
+      // Throws InsufficientBalanceError and rolls the whole checkout back if the wallet is short
+      await ledger.debit({
+        userId: buyerId,
+        amount: totalPrice,
+        reason: `Mua bundle: ${bundle.title} (x${quantity})`,
+        relatedOrderId: order.id,
+      }, tx);
+
+      // Split the price across component sellers by each component's list value
+      const componentValues: Record<string, number> = {};
+      for (const component of bundle.items) {
+        componentValues[component.product.sellerId] =
+          (componentValues[component.product.sellerId] || 0) + parseFloat(component.product.price) * component.quantity;
+      }
+      const totalValue = Object.values(componentValues).reduce((a, b) => a + b, 0);
+      const sellerIds = Object.keys(componentValues);
+      const sellerPool = parseFloat(totalPrice) * 0.95; // 5% platform commission
+      const releaseAt = new Date();
+      releaseAt.setDate(releaseAt.getDate() + 3);
+
+      const sellerShares: { sellerId: string; amount: string }[] = [];
+      let allocated = 0;
+      sellerIds.forEach((sellerId, index) => {
+        const isLast = index === sellerIds.length - 1;
+        const share = isLast
+          ? sellerPool - allocated
+          : totalValue > 0
+            ? Math.round(sellerPool * (componentValues[sellerId] / totalValue) * 100) / 100
+            : sellerPool / sellerIds.length;
+        allocated += share;
+        sellerShares.push({ sellerId, amount: share.toFixed(2) });
+      });
+
+      for (const share of sellerShares) {
+        await tx.insert(pendingEarnings).values({
+          sellerId: share.sellerId,
+          orderId: order.id,
+          amount: share.amount,
+          status: "pending",
+          releaseAt,
+        });
+      }
+
+      await tx.insert(adminLogs).values({
+        action: "platform_commission",
+        meta: {
+          orderId: order.id,
+          bundleId: bundle.id,
+          orderPrice: totalPrice,
+          commissionAmount: (parseFloat(totalPrice) * 0.05).toFixed(2),
+          sellerShares,
+        },
+      });
+
+      await this.startWarranty(tx, order, orderProduct);
+      return { order, bundle: stocked, sellerShares };
+    });
+  }
+
+  // Seller receives 95% after the 5% platform fee, held for 3 days
+  private async recordSellerEarning(tx: DbTransaction, order: Order, adminId?: string): Promise<void> {
+    const commissionAmount = (parseFloat(order.price) * 0.05).toFixed(2);
+    const sellerAmount = (parseFloat(order.price) * 0.95).toFixed(2);
+    const releaseAt = new Date();
+    releaseAt.setDate(releaseAt.getDate() + 3);
+
+    await tx.insert(pendingEarnings).values({
+      sellerId: order.sellerId,
+      orderId: order.id,
+      amount: sellerAmount,
+      status: "pending",
+      releaseAt,
+    });
+
+    await tx.insert(adminLogs).values({
+      adminId,
+      action: "platform_commission",
+      meta: {
+        orderId: order.id,
+        orderPrice: order.price,
+        commissionAmount,
+        sellerAmount,
+      },
+    });
+  }
+
+  // Warranty per the product's policy, starting when the order is paid. Once per order.
+  private async startWarranty(tx: DbTransaction, order: Order, product: Product): Promise<void> {
+    if (product.warrantyDays <= 0) return;
+
+    const startDate = new Date();
+    const endDate = new Date(startDate);
+    endDate.setDate(endDate.getDate() + product.warrantyDays);
+
+    await tx
+      .insert(warranties)
+      .values({
+        orderId: order.id,
+        productId: product.id,
+        buyerId: order.buyerId,
+        sellerId: order.sellerId,
+        warrantyDays: product.warrantyDays,
+        startDate,
+        endDate,
+        status: "active",
+        terms: product.warrantyTerms,
+      })
+      .onConflictDoNothing();
+  }
+
+  // Quota claim, item allocation, paid order and seller earning for one product line
+  private async insertPaidOrder(tx: DbTransaction, buyerId: string, line: OrderLine, checkoutId?: string): Promise<Order> {
+    const { product, quantity } = line;
+
+    // Claim the flash sale quota before anything is sold (another buyer may have taken it)
+    if (line.flashSaleProductId) {
+      const claimed = await this.incrementFlashSaleSoldQuantity(line.flashSaleProductId, quantity, true, tx);
+      if (!claimed) {
+        throw new OrderError(`Flash sale "${product.title}" đã hết suất. Vui lòng thử lại với giá thường.`);
+      }
+    }
+
+    const items = product.category === "account" ? await this.claimProductItems(product.id, quantity, tx) : [];
+
+    const [order] = await tx
+      .insert(orders)
+      .values({
+        orderCode: generateOrderCode(),
+        buyerId,
+        sellerId: product.sellerId,
+        productId: product.id,
+        productItemId: items[0]?.id, // Store first item ID
+        quantity,
+        price: (parseFloat(line.unitPrice) * quantity).toFixed(2),
+        paymentMethod: "wallet",
+        status: "paid", // Auto-paid for wallet payments
+        deliveredContent: items.length > 0 ? encryptContent(itemContents(items)) : null,
+        flashSaleProductId: line.flashSaleProductId,
+        checkoutId,
+        verifyUntil: verificationDeadline(product),
+      })
+      .returning();
+
+    if (items.length > 0) {
+      await tx.insert(orderItems).values(items.map((item) => ({ orderId: order.id, productItemId: item.id })));
+    }
+
+    // Software has unlimited stock; account stock follows the remaining items
+    if (product.category === "account") {
+      await this.syncProductStock(product.id, tx);
+    }
+
+    await this.recordSellerEarning(tx, order);
+    await this.startWarranty(tx, order, product);
+    return order;
+  }
+
+  // Reserves all `quantity` items and the flash sale quota for 30 minutes alongside a pending
+  // order; cancelling, expiring or deleting the order gives both back
+  private async insertPendingOrder(tx: DbTransaction, buyerId: string, line: OrderLine, paymentMethod: "qr" | "manual", checkoutId?: string): Promise<Order> {
+    const { product, quantity } = line;
+    if (line.flashSaleProductId) {
+      const claimed = await this.incrementFlashSaleSoldQuantity(line.flashSaleProductId, quantity, true, tx);
+      if (!claimed) {
+        throw new OrderError(`Flash sale "${product.title}" đã hết suất. Vui lòng thử lại với giá thường.`);
+      }
+    }
+
+    const reservedUntil = new Date(Date.now() + 30 * 60 * 1000);
+    const items = product.category === "account"
+      ? await this.reserveProductItems(product.id, quantity, reservedUntil, tx)
+      : [];
+
+    const [order] = await tx
+      .insert(orders)
+      .values({
+        orderCode: generateOrderCode(),
+        buyerId,
+        sellerId: product.sellerId,
+        productId: product.id,
+        productItemId: items[0]?.id,
+        quantity,
+        price: (parseFloat(line.unitPrice) * quantity).toFixed(2),
+        paymentMethod,
+        status: "pending_payment",
+        flashSaleProductId: line.flashSaleProductId,
+        checkoutId,
+      })
+      .returning();
+
+    if (items.length > 0) {
+      await tx.insert(orderItems).values(items.map((item) => ({ orderId: order.id, productItemId: item.id })));
+      await this.syncProductStock(product.id, tx);
+    }
+    return order;
+  }
+
+  // Wallet checkout of a single product: quota claim, item allocation, debit, order and
+  // seller earning all commit together, so a failure at any step sells nothing
+  async createWalletOrder(input: OrderLine & { buyerId: string }): Promise<Order> {
+    return await db.transaction(async (tx) => {
+      const order = await this.insertPaidOrder(tx, input.buyerId, input);
+
+      // Throws InsufficientBalanceError and rolls the whole checkout back if the wallet is short
+      await ledger.debit({
+        userId: input.buyerId,
+        amount: order.price,
+        reason: `Mua: ${input.product.title} (x${input.quantity})`,
+        relatedOrderId: order.id,
+      }, tx);
+      return order;
+    });
+  }
+
+  // QR / manual checkout of a single product
+  async createPendingOrder(input: OrderLine & { buyerId: string; paymentMethod: "qr" | "manual" }): Promise<Order> {
+    return await db.transaction((tx) => this.insertPendingOrder(tx, input.buyerId, input, input.paymentMethod));
+  }
+
+  // Cart checkout: one parent checkout (one wallet debit or one QR transfer) and one child
+  // order per line, each with its own seller, earning and delivery. All or nothing.
+  async createCheckout(buyerId: string, lines: OrderLine[], paymentMethod: "wallet" | "qr" | "manual"): Promise<{ checkout: Checkout; orders: Order[] }> {
+    if (lines.length === 0) {
+      throw new OrderError("Giỏ hàng trống");
+    }
+    const totalAmount = lines
+      .reduce((sum, line) => sum + parseFloat(line.unitPrice) * line.quantity, 0)
+      .toFixed(2);
+
+    return await db.transaction(async (tx) => {
+      const [checkout] = await tx
+        .insert(checkouts)
+        .values({
+          checkoutCode: generateCheckoutCode(),
+          buyerId,
+          totalAmount,
+          paymentMethod,
+          status: paymentMethod === "wallet" ? "paid" : "pending_payment",
+        })
+        .returning();
+
+      const childOrders: Order[] = [];
+      for (const line of lines) {
+        childOrders.push(
+          paymentMethod === "wallet"
+            ? await this.insertPaidOrder(tx, buyerId, line, checkout.id)
+            : await this.insertPendingOrder(tx, buyerId, line, paymentMethod, checkout.id)
+        );
+      }
+
+      if (paymentMethod === "wallet") {
+        await ledger.debit({
+          userId: buyerId,
+          amount: totalAmount,
+          reason: `Thanh toán giỏ hàng #${checkout.checkoutCode} (${childOrders.length} đơn)`,
+        }, tx);
+      }
+
+      await this.clearCart(buyerId, tx);
+      return { checkout, orders: childOrders };
+    });
+  }
+
+  // Turns a pending (or expired) order into a paid one: sells its items, re-claims the flash
+  // sale quota of an expired order and books the seller earning. Undefined if it was already settled.
+  async settleOrderPayment(orderId: string, adminId?: string, tx?: DbTransaction): Promise<Order | undefined> {
+    if (!tx) {
+      return await db.transaction((t) => this.settleOrderPayment(orderId, adminId, t));
+    }
+
+    const [current] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+    if (!current || !["pending_payment", "pending_confirmation", "cancelled"].includes(current.status)) {
+      return undefined;
+    }
+
+    // A pending order holds its flash sale quota; a cancelled one gave it back and has to
+    // claim it again, which fails if other buyers took the remaining slots meanwhile
+    if (current.status === "cancelled" && current.flashSaleProductId) {
+      const claimed = await this.incrementFlashSaleSoldQuantity(current.flashSaleProductId, current.quantity, true, tx);
+      if (!claimed) {
+        throw new OrderError("Flash sale của đơn hàng đã hết suất, không thể xác nhận thanh toán trễ. Vui lòng hoàn tiền cho người mua.");
+      }
+    }
+
+    const [order] = await tx
+      .update(orders)
+      .set({ status: "paid", updatedAt: new Date() })
+      .where(eq(orders.id, orderId))
+      .returning();
+
+    const [product] = await tx.select().from(products).where(eq(products.id, order.productId));
+    if (product?.category === "account") {
+      await this.sellOrderItems(order, tx);
+    }
+
+    await this.recordSellerEarning(tx, order, adminId);
+    if (product) {
+      await this.startWarranty(tx, order, product);
+      await tx.update(orders).set({ verifyUntil: verificationDeadline(product) }).where(eq(orders.id, order.id));
+    }
+
+    const [settled] = await tx.select().from(orders).where(eq(orders.id, orderId));
+    return settled;
+  }
+
+  // Settles a QR checkout and every child order under it
+  async settleCheckoutPayment(checkoutId: string, adminId?: string): Promise<{ checkout: Checkout; orders: Order[] } | undefined> {
+    return await db.transaction(async (tx) => {
+      const [checkout] = await tx
+        .update(checkouts)
+        .set({ status: "paid", updatedAt: new Date() })
+        .where(and(eq(checkouts.id, checkoutId), inArray(checkouts.status, ["pending_payment", "pending_confirmation", "cancelled"])))
+        .returning();
+      if (!checkout) return undefined;
+
+      const children = await tx.select().from(orders).where(eq(orders.checkoutId, checkoutId));
+      const settled: Order[] = [];
+      for (const child of children) {
+        const order = await this.settleOrderPayment(child.id, adminId, tx);
+        if (order) settled.push(order);
+      }
+      return { checkout, orders: settled };
+    });
+  }
+
+  async getCheckout(id: string): Promise<Checkout | undefined> {
+    const [checkout] = await db.select().from(checkouts).where(eq(checkouts.id, id));
+    return checkout;
+  }
+
+  async getCheckoutByCode(checkoutCode: string): Promise<Checkout | undefined> {
+    const [checkout] = await db.select().from(checkouts).where(eq(checkouts.checkoutCode, checkoutCode));
+    return checkout;
+  }
+
+  async getCheckoutOrders(checkoutId: string): Promise<(Order & { product: Product })[]> {
+    const result = await db
+      .select()
+      .from(orders)
+      .innerJoin(products, eq(orders.productId, products.id))
+      .where(eq(orders.checkoutId, checkoutId))
+      .orderBy(asc(orders.createdAt));
+    return result.map((r) => ({ ...r.orders, product: r.products }));
+  }
+
+  async getPendingCheckouts(): Promise<Checkout[]> {
+    return await db
+      .select()
+      .from(checkouts)
+      .where(inArray(checkouts.status, ["pending_payment", "pending_confirmation"]))
+      .orderBy(desc(checkouts.createdAt));
+  }
+
+  // Buyer says they have transferred the money; the checkout and its orders wait for the admin
+  async markCheckoutPaymentSubmitted(id: string): Promise<Checkout | undefined> {
+    return await db.transaction(async (tx) => {
+      const now = new Date();
+      const [checkout] = await tx
+        .update(checkouts)
+        .set({ status: "pending_confirmation", paymentConfirmedAt: now, updatedAt: now })
+        .where(and(eq(checkouts.id, id), eq(checkouts.status, "pending_payment")))
+        .returning();
+      if (!checkout) return undefined;
+
+      await tx
+        .update(orders)
+        .set({ status: "pending_confirmation", paymentConfirmedAt: now, updatedAt: now })
+        .where(and(eq(orders.checkoutId, id), eq(orders.status, "pending_payment")));
+      return checkout;
+    });
+  }
+
+  async cancelCheckout(id: string): Promise<Checkout | undefined> {
+    return await db.transaction(async (tx) => {
+      const [checkout] = await tx
+        .update(checkouts)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(and(eq(checkouts.id, id), inArray(checkouts.status, ["pending_payment", "pending_confirmation"])))
+        .returning();
+      if (!checkout) return undefined;
+
+      const cancelled = await tx
+        .update(orders)
+        .set({ status: "cancelled", updatedAt: new Date() })
+        .where(and(eq(orders.checkoutId, id), inArray(orders.status, ["pending_payment", "pending_confirmation"])))
+        .returning();
+      for (const order of cancelled) {
+        await this.releaseOrderItems(order.id, tx);
+        await this.returnFlashSaleQuota(tx, order);
+      }
+      return checkout;
+    });
+  }
+
+  // Carts
+  private async getOrCreateCartId(userId: string): Promise<string> {
+    const [existing] = await db.select().from(carts).where(eq(carts.userId, userId));
+    if (existing) return existing.id;
+
+    const [cart] = await db
+      .insert(carts)
+      .values({ userId })
+      .onConflictDoUpdate({ target: carts.userId, set: { updatedAt: new Date() } })
+      .returning();
+    return cart.id;
+  }
+
+  async getCartItems(userId: string): Promise<CartItemWithProduct[]> {
+    const result = await db
+      .select()
+      .from(cartItems)
+      .innerJoin(carts, eq(cartItems.cartId, carts.id))
+      .innerJoin(products, eq(cartItems.productId, products.id))
+      .where(eq(carts.userId, userId))
+      .orderBy(asc(cartItems.createdAt));
+    return result.map((r) => ({ ...r.cart_items, product: r.products }));
+  }
+
+  // Adding a product that is already in the cart bumps its quantity
+  async addCartItem(userId: string, productId: string, quantity: number, unitPrice: string): Promise<CartItem> {
+    const cartId = await this.getOrCreateCartId(userId);
+    const [existing] = await db
+      .select()
+      .from(cartItems)
+      .where(and(eq(cartItems.cartId, cartId), eq(cartItems.productId, productId)));
+
+    if (existing) {
+      const [item] = await db
+        .update(cartItems)
+        .set({ quantity: sql`${cartItems.quantity} + ${quantity}`, unitPriceAtAdd: unitPrice, updatedAt: new Date() })
+        .where(eq(cartItems.id, existing.id))
+        .returning();
+      return item;
+    }
+
+    const [item] = await db
+      .insert(cartItems)
+      .values({ cartId, productId, quantity, unitPriceAtAdd: unitPrice })
+      .returning();
+    return item;
+  }
+
+  async updateCartItemQuantity(userId: string, itemId: string, quantity: number): Promise<CartItem | undefined> {
+    const [item] = await db
+      .update(cartItems)
+      .set({ quantity, updatedAt: new Date() })
+      .where(and(eq(cartItems.id, itemId), sql`${cartItems.cartId} IN (SELECT ${carts.id} FROM ${carts} WHERE ${carts.userId} = ${userId})`))
+      .returning();
+    return item;
+  }
+
+  async removeCartItem(userId: string, itemId: string): Promise<boolean> {
+    const result = await db
+      .delete(cartItems)
+      .where(and(eq(cartItems.id, itemId), sql`${cartItems.cartId} IN (SELECT ${carts.id} FROM ${carts} WHERE ${carts.userId} = ${userId})`))
+      .returning();
+    return result.length > 0;
+  }
+
+  async clearCart(userId: string, tx: DbTransaction | typeof db = db): Promise<void> {
+    await tx
+      .delete(cartItems)
+      .where(sql`${cartItems.cartId} IN (SELECT ${carts.id} FROM ${carts} WHERE ${carts.userId} = ${userId})`);
+  }
+
   // Telegram Settings
   async getTelegramSettings(userId: string): Promise<TelegramSettings | undefined> {
     const [settings] = await db.select().from(telegramSettings).where(eq(telegramSettings.userId, userId));
@@ -1919,6 +3613,23 @@ export class DatabaseStorage implements IStorage {
     return settings;
   }
 
+  // Binds the chat to whoever generated `code`; the code is single-use and expires
+  async verifyTelegramCode(code: string, chatId: string, username: string | null): Promise<TelegramSettings | undefined> {
+    const [settings] = await db
+      .update(telegramSettings)
+      .set({
+        chatId,
+        username,
+        isVerified: true,
+        verificationCode: null,
+        verificationCodeExpiresAt: null,
+        updatedAt: new Date(),
+      })
+      .where(and(eq(telegramSettings.verificationCode, code), gte(telegramSettings.verificationCodeExpiresAt, new Date())))
+      .returning();
+    return settings;
+  }
+
   async getVerifiedTelegramUsers(): Promise<TelegramSettings[]> {
     return db.select().from(telegramSettings).where(eq(telegramSettings.isVerified, true));
   }
@@ -1974,6 +3685,16 @@ export class DatabaseStorage implements IStorage {
     return warranty;
   }
 
+  async expireEndedWarranties(): Promise<number> {
+    // Claimed warranties stay open until the claim is resolved
+    const expired = await db
+      .update(warranties)
+      .set({ status: "expired" })
+      .where(and(eq(warranties.status, "active"), lt(warranties.endDate, new Date())))
+      .returning({ id: warranties.id });
+    return expired.length;
+  }
+
   // Warranty Claims
   async createWarrantyClaim(data: InsertWarrantyClaim): Promise<WarrantyClaim> {
     const [claim] = await db.insert(warrantyClaims).values(data).returning();
@@ -2016,6 +3737,303 @@ export class DatabaseStorage implements IStorage {
     return claim;
   }
 
+  /**
+   * Closes a pending claim. A replacement is sold from the product's available items and
+   * appended to the order's delivery; a refund, capped at what earlier refunds left of the
+   * order, is credited to the buyer and the seller's share taken back. The warranty stays
+   * active after a replacement or rejection and is voided by a refund.
+   */
+  async resolveWarrantyClaim(id: string, adminId: string, outcome: WarrantyResolution, resolution?: string): Promise<{ claim: WarrantyClaim; warranty: Warranty; order: Order }> {
+    return await db.transaction(async (tx) => {
+      const [claim] = await tx
+        .update(warrantyClaims)
+        .set({
+          status: outcome.action === "reject" ? "rejected" : "approved",
+          resolution,
+          resolvedBy: adminId,
+          resolvedAt: new Date(),
+        })
+        .where(and(eq(warrantyClaims.id, id), inArray(warrantyClaims.status, ["pending", "processing"])))
+        .returning();
+      if (!claim) {
+        throw new OrderError("Yêu cầu bảo hành không tồn tại hoặc đã được xử lý");
+      }
+
+      const [warranty] = await tx.select().from(warranties).where(eq(warranties.id, claim.warrantyId));
+      let [order] = await tx.select().from(orders).where(eq(orders.id, warranty.orderId)).for("update");
+      let warrantyStatus: "active" | "expired" | "void" = warranty.endDate < new Date() ? "expired" : "active";
+
+      if (outcome.action === "replace") {
+        const [product] = await tx.select().from(products).where(eq(products.id, warranty.productId));
+        if (product?.category !== "account") {
+          throw new OrderError("Chỉ sản phẩm tài khoản mới có thể giao hàng thay thế");
+        }
+        const items = await this.claimProductItems(warranty.productId, outcome.quantity, tx);
+        await tx.insert(orderItems).values(items.map((item) => ({ orderId: order.id, productItemId: item.id, isReplacement: true })));
+        await this.syncProductStock(warranty.productId, tx);
+
+        const replacement = `=== Bảo hành (thay thế) ===\n${itemContents(items)}`;
+        const previous = order.deliveredContent ? decryptContent(order.deliveredContent) : null;
+        [order] = await tx
+          .update(orders)
+          .set({
+            deliveredContent: encryptContent(previous ? `${previous}\n\n${replacement}` : replacement),
+            updatedAt: new Date(),
+          })
+          .where(eq(orders.id, order.id))
+          .returning();
+        await tx.update(warrantyClaims).set({ replacementItemId: items[0].id }).where(eq(warrantyClaims.id, id));
+      }
+
+      if (outcome.action === "refund") {
+        const amount = parseFloat(outcome.amount);
+        const refundable = parseFloat(order.price) - (await this.getRefundedAmount(tx, order.id));
+        if (!Number.isFinite(amount) || amount <= 0 || amount > refundable + 0.005) {
+          throw new OrderError(`Số tiền hoàn không hợp lệ (tối đa ${Math.max(refundable, 0).toLocaleString('vi-VN')}đ, phần đơn hàng chưa được hoàn)`);
+        }
+
+        await this.chargeSellerForRefund(
+          tx,
+          order,
+          order.sellerId,
+          amount,
+          `Hoàn tiền bảo hành đơn hàng #${order.orderCode}`,
+          "Ví người bán không đủ số dư để hoàn tiền bảo hành"
+        );
+
+        await ledger.credit({
+          userId: warranty.buyerId,
+          amount,
+          reason: `Hoàn tiền bảo hành đơn hàng #${order.orderCode}`,
+          relatedOrderId: order.id,
+        }, tx);
+        await tx.update(warrantyClaims).set({ refundAmount: amount.toFixed(2) }).where(eq(warrantyClaims.id, id));
+        warrantyStatus = "void";
+      }
+
+      const [updatedWarranty] = await tx
+        .update(warranties)
+        .set({ status: warrantyStatus })
+        .where(eq(warranties.id, warranty.id))
+        .returning();
+      const [updatedClaim] = await tx.select().from(warrantyClaims).where(eq(warrantyClaims.id, id));
+      return { claim: updatedClaim, warranty: updatedWarranty, order };
+    });
+  }
+
+  // Total already refunded on an order, through verification flags and warranty claims
+  private async getRefundedAmount(tx: DbTransaction, orderId: string): Promise<number> {
+    const [flagged] = await tx
+      .select({ total: sql<string>`COALESCE(SUM(${orderItems.refundAmount}), 0)` })
+      .from(orderItems)
+      .where(eq(orderItems.orderId, orderId));
+    const [claimed] = await tx
+      .select({ total: sql<string>`COALESCE(SUM(${warrantyClaims.refundAmount}), 0)` })
+      .from(warrantyClaims)
+      .innerJoin(warranties, eq(warrantyClaims.warrantyId, warranties.id))
+      .where(eq(warranties.orderId, orderId));
+    return parseFloat(flagged.total) + parseFloat(claimed.total);
+  }
+
+  // Takes a seller's 95% share of a buyer refund back (the platform gives up its commission on
+  // the rest): out of their still-held earning on the order first, then their wallet. Returns
+  // the share; throws OrderError with insufficientMessage if the wallet can't cover it.
+  private async chargeSellerForRefund(tx: DbTransaction, order: Order, sellerId: string, refundAmount: number, reason: string, insufficientMessage: string): Promise<number> {
+    const amount = Math.round(refundAmount * 95) / 100;
+    let remaining = amount;
+    const heldEarnings = await tx
+      .select()
+      .from(pendingEarnings)
+      .where(and(eq(pendingEarnings.orderId, order.id), eq(pendingEarnings.sellerId, sellerId), eq(pendingEarnings.status, "pending")))
+      .for("update");
+    for (const earning of heldEarnings) {
+      if (remaining <= 0) break;
+      const deduction = Math.min(remaining, parseFloat(earning.amount));
+      await tx
+        .update(pendingEarnings)
+        .set({ amount: (parseFloat(earning.amount) - deduction).toFixed(2) })
+        .where(eq(pendingEarnings.id, earning.id));
+      remaining -= deduction;
+    }
+
+    if (remaining > 0.005) {
+      try {
+        await ledger.debit({
+          userId: sellerId,
+          amount: remaining,
+          reason,
+          relatedOrderId: order.id,
+        }, tx);
+      } catch (error) {
+        if (error instanceof InsufficientBalanceError) {
+          throw new OrderError(insufficientMessage);
+        }
+        throw error;
+      }
+    }
+    return amount;
+  }
+
+  // Delivered lines of an order with their verification flags
+  async getOrderLines(orderId: string): Promise<{ line: OrderItem; item: ProductItem }[]> {
+    return await db
+      .select({ line: orderItems, item: productItems })
+      .from(orderItems)
+      .innerJoin(productItems, eq(orderItems.productItemId, productItems.id))
+      .where(eq(orderItems.orderId, orderId))
+      .orderBy(asc(orderItems.createdAt));
+  }
+
+  // Unit price and seller of each product an order delivered. A bundle's set price is split
+  // across its components by list value, the same way createBundleOrder split the earnings.
+  private async getOrderLinePricing(tx: DbTransaction, order: Order): Promise<Map<string, { unitPrice: number; sellerId: string }>> {
+    const setPrice = parseFloat(order.price) / order.quantity;
+    const pricing = new Map<string, { unitPrice: number; sellerId: string }>();
+    if (!order.bundleId) {
+      pricing.set(order.productId, { unitPrice: Math.round(setPrice * 100) / 100, sellerId: order.sellerId });
+      return pricing;
+    }
+
+    const components = await tx
+      .select({ quantity: bundleItems.quantity, product: products })
+      .from(bundleItems)
+      .innerJoin(products, eq(bundleItems.productId, products.id))
+      .where(eq(bundleItems.bundleId, order.bundleId));
+    const setValue = components.reduce((sum, component) => sum + parseFloat(component.product.price) * component.quantity, 0);
+    for (const { product } of components) {
+      const unitPrice = setValue > 0 ? (setPrice * parseFloat(product.price)) / setValue : 0;
+      pricing.set(product.id, { unitPrice: Math.round(unitPrice * 100) / 100, sellerId: product.sellerId });
+    }
+    return pricing;
+  }
+
+  /**
+   * Settles lines the buyer flagged as invalid within the order's verification window. Each
+   * line is replaced from its own product's available stock while it lasts; the rest are
+   * refunded at that product's unit price (its share of a bundle), up to what is left of the
+   * order after earlier refunds. The selling seller's 95% share of a refund comes out of their
+   * held earning (or their wallet once released) and the platform gives up its commission on it.
+   */
+  async flagOrderItems(orderId: string, buyerId: string, orderItemIds: string[], reason: string): Promise<{ order: Order; replaced: number; refunded: number; refundAmount: string }> {
+    return await db.transaction(async (tx) => {
+      let [order] = await tx.select().from(orders).where(eq(orders.id, orderId)).for("update");
+      if (!order || order.buyerId !== buyerId) {
+        throw new OrderError("Đơn hàng không tồn tại", 404);
+      }
+      if (order.status !== "paid" || !order.verifyUntil) {
+        throw new OrderError("Đơn hàng này không hỗ trợ báo lỗi tài khoản");
+      }
+      if (order.verifyUntil < new Date()) {
+        throw new OrderError("Đã hết thời gian kiểm tra tài khoản của đơn hàng này");
+      }
+
+      const ids = Array.from(new Set(orderItemIds));
+      const lines = await tx
+        .select({ line: orderItems, productId: productItems.productId })
+        .from(orderItems)
+        .innerJoin(productItems, eq(orderItems.productItemId, productItems.id))
+        .where(and(eq(orderItems.orderId, order.id), inArray(orderItems.id, ids), isNull(orderItems.flaggedAt)))
+        .for("update", { of: orderItems });
+      if (lines.length !== ids.length) {
+        throw new OrderError("Có tài khoản không thuộc đơn hàng hoặc đã được báo lỗi trước đó");
+      }
+      // Replacements are final, otherwise flagging them again would hand out free accounts
+      if (lines.some(({ line }) => line.isReplacement)) {
+        throw new OrderError("Tài khoản thay thế không thể báo lỗi lại, vui lòng liên hệ hỗ trợ");
+      }
+
+      const pricing = await this.getOrderLinePricing(tx, order);
+      if (lines.some(({ productId }) => !pricing.has(productId))) {
+        throw new OrderError("Không thể báo lỗi tài khoản của sản phẩm không còn trong bundle, vui lòng liên hệ hỗ trợ");
+      }
+
+      const available = new Map<string, ProductItem[]>();
+      for (const productId of Array.from(new Set(lines.map((line) => line.productId)))) {
+        const count = lines.filter((line) => line.productId === productId).length;
+        available.set(productId, await this.claimProductItems(productId, count, tx, true));
+      }
+
+      let refundable = Math.max(parseFloat(order.price) - (await this.getRefundedAmount(tx, order.id)), 0);
+      const flaggedAt = new Date();
+      const replacements: ProductItem[] = [];
+      const sellerRefunds = new Map<string, number>();
+      let refundTotal = 0;
+      for (const { line, productId } of lines) {
+        const replacement = available.get(productId)!.shift();
+        const { unitPrice, sellerId } = pricing.get(productId)!;
+        const lineRefund = replacement ? 0 : Math.min(unitPrice, refundable);
+        refundable -= lineRefund;
+        refundTotal += lineRefund;
+        if (replacement) replacements.push(replacement);
+        if (lineRefund > 0) sellerRefunds.set(sellerId, (sellerRefunds.get(sellerId) ?? 0) + lineRefund);
+        await tx
+          .update(orderItems)
+          .set({
+            flaggedAt,
+            flagReason: reason,
+            flagResolution: replacement ? "replaced" : "refunded",
+            replacementItemId: replacement?.id ?? null,
+            refundAmount: replacement ? null : lineRefund.toFixed(2),
+          })
+          .where(eq(orderItems.id, line.id));
+      }
+
+      if (replacements.length > 0) {
+        await tx.insert(orderItems).values(replacements.map((item) => ({ orderId: order.id, productItemId: item.id, isReplacement: true })));
+        for (const productId of Array.from(new Set(replacements.map((item) => item.productId)))) {
+          await this.syncProductStock(productId, tx);
+        }
+
+        const replacement = `=== Thay thế tài khoản lỗi ===\n${itemContents(replacements)}`;
+        const previous = order.deliveredContent ? decryptContent(order.deliveredContent) : null;
+        [order] = await tx
+          .update(orders)
+          .set({
+            deliveredContent: encryptContent(previous ? `${previous}\n\n${replacement}` : replacement),
+            updatedAt: new Date(),
+          })
+          .where(eq(orders.id, order.id))
+          .returning();
+      }
+
+      if (refundTotal > 0) {
+        let sellerAmount = 0;
+        for (const [sellerId, amount] of Array.from(sellerRefunds.entries())) {
+          sellerAmount += await this.chargeSellerForRefund(
+            tx,
+            order,
+            sellerId,
+            amount,
+            `Hoàn tiền tài khoản lỗi đơn hàng #${order.orderCode}`,
+            "Không thể hoàn tiền tự động, vui lòng liên hệ hỗ trợ"
+          );
+        }
+        await ledger.credit({
+          userId: buyerId,
+          amount: refundTotal.toFixed(2),
+          reason: `Hoàn tiền tài khoản lỗi đơn hàng #${order.orderCode}`,
+          relatedOrderId: order.id,
+        }, tx);
+        await tx.insert(adminLogs).values({
+          action: "verification_refund",
+          meta: {
+            orderId: order.id,
+            refundAmount: refundTotal.toFixed(2),
+            sellerAmount: sellerAmount.toFixed(2),
+            commissionAmount: (refundTotal - sellerAmount).toFixed(2),
+          },
+        });
+      }
+
+      return {
+        order,
+        replaced: replacements.length,
+        refunded: lines.length - replacements.length,
+        refundAmount: refundTotal.toFixed(2),
+      };
+    });
+  }
+
   // Disputes
   async createDispute(data: InsertDispute): Promise<Dispute> {
     const [dispute] = await db.insert(disputes).values(data).returning();
@@ -2230,6 +4248,15 @@ export class DatabaseStorage implements IStorage {
     await db.delete(adminBroadcasts).where(eq(adminBroadcasts.id, id));
   }
 
+  async deactivateExpiredAdminBroadcasts(): Promise<number> {
+    const expired = await db
+      .update(adminBroadcasts)
+      .set({ isActive: false })
+      .where(and(eq(adminBroadcasts.isActive, true), lt(adminBroadcasts.expiresAt, new Date())))
+      .returning({ id: adminBroadcasts.id });
+    return expired.length;
+  }
+
   // Conversation Unread Counts
   async getConversationUnreadCount(conversationId: string, userId: string): Promise<number> {
     const result = await db
@@ -2294,17 +4321,29 @@ export class DatabaseStorage implements IStorage {
     return earning;
   }
 
-  async releasePendingEarning(id: string, adminNote?: string): Promise<PendingEarning> {
-    const [earning] = await db
-      .update(pendingEarnings)
-      .set({
-        status: "released",
-        releasedAt: new Date(),
-        adminNote: adminNote || null,
-      })
-      .where(eq(pendingEarnings.id, id))
-      .returning();
-    return earning;
+  // Releases a pending earning and credits the seller's wallet in one transaction.
+  // Returns undefined if it is no longer pending (the job and an admin raced for it).
+  async releasePendingEarning(id: string, adminNote?: string, reason = "Tiền bán hàng đã được chuyển"): Promise<PendingEarning | undefined> {
+    return await db.transaction(async (tx) => {
+      const [earning] = await tx
+        .update(pendingEarnings)
+        .set({
+          status: "released",
+          releasedAt: new Date(),
+          adminNote: adminNote || null,
+        })
+        .where(and(eq(pendingEarnings.id, id), eq(pendingEarnings.status, "pending")))
+        .returning();
+      if (!earning) return undefined;
+
+      await ledger.credit({
+        userId: earning.sellerId,
+        amount: earning.amount,
+        reason,
+        relatedOrderId: earning.orderId,
+      }, tx);
+      return earning;
+    });
   }
 
   async cancelPendingEarning(id: string, adminNote?: string): Promise<PendingEarning> {
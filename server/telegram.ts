@@ -0,0 +1,64 @@
+import crypto from "crypto";
+
+// TELEGRAM_API_BASE_URL points the client at a local fake Bot API when testing
+function apiUrl(method: string): string | null {
+  const token = process.env.TELEGRAM_BOT_TOKEN;
+  if (!token) return null;
+  const base = (process.env.TELEGRAM_API_BASE_URL || "https://api.telegram.org").replace(/\/+$/, "");
+  return `${base}/bot${token}/${method}`;
+}
+
+export function isTelegramConfigured(): boolean {
+  return Boolean(process.env.TELEGRAM_BOT_TOKEN);
+}
+
+// Plain text only: notification titles and messages are user content and would need
+// escaping for Markdown/HTML parse modes
+export async function sendTelegramMessage(chatId: string, text: string): Promise<boolean> {
+  const url = apiUrl("sendMessage");
+  if (!url) return false;
+
+  const response = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ chat_id: chatId, text: text.slice(0, 4096), disable_web_page_preview: true }),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!response.ok) {
+    console.error(`Telegram sendMessage failed (${response.status}):`, await response.text());
+    return false;
+  }
+  return true;
+}
+
+// Telegram echoes the secret given to setWebhook in X-Telegram-Bot-Api-Secret-Token
+export function hasValidTelegramSecret(header: string | string[] | undefined): boolean {
+  const secret = process.env.TELEGRAM_WEBHOOK_SECRET;
+  if (!secret || typeof header !== "string") return false;
+  const a = Buffer.from(header);
+  const b = Buffer.from(secret);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+export interface TelegramCommand {
+  chatId: string;
+  username: string | null;
+  command: string; // "/start", "/stop", ... (lower-cased, "@botname" suffix dropped)
+  argument: string;
+}
+
+// The bot command in a webhook update, or null for anything else (edits, stickers, groups)
+export function parseTelegramCommand(update: any): TelegramCommand | null {
+  const message = update?.message;
+  if (!message || message.chat?.type !== "private" || typeof message.text !== "string") return null;
+
+  const match = message.text.trim().match(/^(\/[a-zA-Z_]+)(?:@\w+)?(?:\s+([\s\S]*))?$/);
+  if (!match) return null;
+
+  return {
+    chatId: String(message.chat.id),
+    username: message.from?.username ?? null,
+    command: match[1].toLowerCase(),
+    argument: (match[2] ?? "").trim(),
+  };
+}
@@ -0,0 +1,81 @@
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { buildVietQrPayload, crc16, isValidPayloadCrc, paymentMemo, resolveBankBin } from "./vietqr";
+
+// Merchant-presented QR example from the EMVCo specification (note the UTF-8 tag 64)
+const EMVCO_SAMPLE =
+  "00020101021229300012D156000000000510A93FO3230Q31280012D15600000001030812345678520441115802CN" +
+  "5914BEST TRANSPORT6007BEIJING64200002ZH0104最佳运输0202北京540523.7253031565502016233030412340603***" +
+  "0708A60086670902ME91320016A0112233449988770708123456786304A13A";
+
+test("crc16 is CRC-16/CCITT-FALSE", () => {
+  assert.equal(crc16("123456789"), "29B1");
+  assert.equal(crc16(""), "FFFF");
+});
+
+test("crc16 matches the EMVCo sample payload", () => {
+  assert.equal(crc16(EMVCO_SAMPLE.slice(0, -4)), "A13A");
+  assert.equal(isValidPayloadCrc(EMVCO_SAMPLE), true);
+  assert.equal(isValidPayloadCrc(EMVCO_SAMPLE.replace("BEIJING", "BEIJINH")), false);
+  assert.equal(isValidPayloadCrc(EMVCO_SAMPLE.slice(0, -8)), false);
+});
+
+test("builds the VietQR payload for an order", () => {
+  const payload = buildVietQrPayload({
+    bankBin: "970436",
+    accountNumber: "0011 0012 34567",
+    amount: "150000.00",
+    memo: paymentMemo("DH-12345678ABCD"),
+  });
+  assert.equal(
+    payload,
+    "000201" + "010212" +
+      "3857" + "0010A000000727" + "0127" + "0006970436" + "01130011001234567" + "0208QRIBFTTA" +
+      "5303704" +
+      "5406150000" +
+      "5802VN" +
+      "6218" + "0814DH12345678ABCD" +
+      "6304B4C9"
+  );
+  assert.equal(isValidPayloadCrc(payload), true);
+});
+
+test("builds the VietQR payload for a deposit", () => {
+  const payload = buildVietQrPayload({
+    bankBin: "970422",
+    accountNumber: "1234567890",
+    amount: 50000,
+    memo: "nap-20240101-xyz",
+  });
+  assert.equal(
+    payload,
+    "00020101021238540010A00000072701240006970422011012345678900208QRIBFTTA" +
+      "53037045405500005802VN62180814NAP20240101XYZ63049F24"
+  );
+});
+
+test("amount is a whole number of dong", () => {
+  const payload = buildVietQrPayload({ bankBin: "970436", accountNumber: "123", amount: "99999.60", memo: "DH1" });
+  assert.match(payload, /5406100000/);
+  assert.equal(isValidPayloadCrc(payload), true);
+});
+
+test("rejects invalid input", () => {
+  assert.throws(() => buildVietQrPayload({ bankBin: "97043", accountNumber: "123", amount: 1000, memo: "DH1" }));
+  assert.throws(() => buildVietQrPayload({ bankBin: "970436", accountNumber: "12-3", amount: 1000, memo: "DH1" }));
+  assert.throws(() => buildVietQrPayload({ bankBin: "970436", accountNumber: "123", amount: 0, memo: "DH1" }));
+  assert.throws(() => buildVietQrPayload({ bankBin: "970436", accountNumber: "123", amount: "abc", memo: "DH1" }));
+});
+
+test("memo is the bare code, without accents or separators", () => {
+  assert.equal(paymentMemo("DH-1234ABCD"), "DH1234ABCD");
+  assert.equal(paymentMemo("nạp tiền đơn 12"), "NAPTIENDON12");
+});
+
+test("resolves bank BINs by name or override", () => {
+  assert.equal(resolveBankBin("Vietcombank"), "970436");
+  assert.equal(resolveBankBin("MB Bank"), "970422");
+  assert.equal(resolveBankBin("Unknown Bank"), undefined);
+  assert.equal(resolveBankBin("Unknown", "970999"), "970999");
+  assert.equal(resolveBankBin("Vietcombank", "bad"), "970436");
+});
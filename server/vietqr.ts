@@ -0,0 +1,128 @@
+import QRCode from "qrcode";
+import { normalizeMemo } from "./bankStatements";
+
+// Napas acquirer IDs (BIN) for the banks sellers and admins actually use. A `bank_bin`
+// system setting overrides the lookup for anything not listed here.
+const BANK_BINS: Record<string, string> = {
+  vietcombank: "970436",
+  vcb: "970436",
+  vietinbank: "970415",
+  bidv: "970418",
+  agribank: "970405",
+  techcombank: "970407",
+  tcb: "970407",
+  mbbank: "970422",
+  mb: "970422",
+  acb: "970416",
+  vpbank: "970432",
+  tpbank: "970423",
+  sacombank: "970403",
+  vib: "970441",
+  shb: "970443",
+  hdbank: "970437",
+  ocb: "970448",
+  msb: "970426",
+  seabank: "970440",
+  eximbank: "970431",
+  lpbank: "970449",
+  lienvietpostbank: "970449",
+  namabank: "970428",
+  bacabank: "970409",
+  abbank: "970425",
+  pvcombank: "970412",
+  vietabank: "970427",
+  baovietbank: "970438",
+  kienlongbank: "970452",
+  ncb: "970419",
+  vietbank: "970433",
+  cake: "546034",
+};
+
+export interface VietQrInput {
+  bankBin: string;
+  accountNumber: string;
+  amount: string | number;
+  memo: string;
+}
+
+export function resolveBankBin(bankName: string, override?: string | null): string | undefined {
+  if (override && /^\d{6}$/.test(override)) return override;
+  return BANK_BINS[bankName.toLowerCase().replace(/[^a-z0-9]/g, "")];
+}
+
+// Transfer memo we ask buyers to use: the bare code, which survives every bank's memo
+// rewriting and is exactly what bank reconciliation looks for (DH-1234ABCD -> DH1234ABCD)
+export function paymentMemo(code: string): string {
+  return normalizeMemo(code);
+}
+
+// EMVCo data object: 2-digit ID, 2-digit length, value
+function tlv(id: string, value: string): string {
+  if (value.length > 99) {
+    throw new Error(`VietQR field ${id} is too long`);
+  }
+  return `${id}${value.length.toString().padStart(2, "0")}${value}`;
+}
+
+// CRC-16/CCITT-FALSE (poly 0x1021, init 0xFFFF), as required for EMVCo tag 63
+export function crc16(payload: string): string {
+  let crc = 0xffff;
+  const bytes = Buffer.from(payload, "utf-8");
+  for (let b = 0; b < bytes.length; b++) {
+    crc ^= bytes[b] << 8;
+    for (let i = 0; i < 8; i++) {
+      crc = crc & 0x8000 ? ((crc << 1) ^ 0x1021) & 0xffff : (crc << 1) & 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, "0");
+}
+
+export function isValidPayloadCrc(payload: string): boolean {
+  if (!/6304[0-9A-F]{4}$/.test(payload)) return false;
+  return crc16(payload.slice(0, -4)) === payload.slice(-4);
+}
+
+/**
+ * Builds a dynamic VietQR (Napas 247 "to account") payload:
+ * 00 format, 01 dynamic, 38 merchant info (GUID, BIN + account, QRIBFTTA), 53 VND,
+ * 54 amount, 58 VN, 62/08 purpose (memo), 63 CRC.
+ */
+export function buildVietQrPayload(input: VietQrInput): string {
+  if (!/^\d{6}$/.test(input.bankBin)) {
+    throw new Error("Mã ngân hàng (BIN) không hợp lệ");
+  }
+  const accountNumber = input.accountNumber.replace(/\s+/g, "");
+  if (!/^[0-9A-Za-z]{1,19}$/.test(accountNumber)) {
+    throw new Error("Số tài khoản không hợp lệ");
+  }
+  const amount = Math.round(Number(input.amount));
+  if (!Number.isFinite(amount) || amount <= 0) {
+    throw new Error("Số tiền không hợp lệ");
+  }
+  // Purpose must be plain ASCII; keep it short enough for every bank app
+  const memo = normalizeMemo(input.memo).slice(0, 25);
+
+  const merchantInfo =
+    tlv("00", "A000000727") +
+    tlv("01", tlv("00", input.bankBin) + tlv("01", accountNumber)) +
+    tlv("02", "QRIBFTTA");
+
+  const payload =
+    tlv("00", "01") +
+    tlv("01", "12") +
+    tlv("38", merchantInfo) +
+    tlv("53", "704") +
+    tlv("54", amount.toString()) +
+    tlv("58", "VN") +
+    (memo ? tlv("62", tlv("08", memo)) : "") +
+    "6304";
+
+  return payload + crc16(payload);
+}
+
+export async function renderVietQr(payload: string, format: "png" | "svg"): Promise<Buffer> {
+  if (format === "svg") {
+    return Buffer.from(await QRCode.toString(payload, { type: "svg", errorCorrectionLevel: "M", margin: 2 }));
+  }
+  return await QRCode.toBuffer(payload, { type: "png", errorCorrectionLevel: "M", margin: 2, width: 360 });
+}
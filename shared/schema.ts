@@ -9,6 +9,7 @@ import {
   boolean,
   jsonb,
   index,
+  uniqueIndex,
   pgEnum,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
@@ -20,19 +21,25 @@ export const userStatusEnum = pgEnum("user_status", ["active", "banned", "pendin
 export const kycStatusEnum = pgEnum("kyc_status", ["pending", "approved", "rejected"]);
 export const productCategoryEnum = pgEnum("product_category", ["account", "software"]);
 export const productStatusEnum = pgEnum("product_status", ["draft", "pending_approval", "active", "disabled"]);
-export const productItemStatusEnum = pgEnum("product_item_status", ["available", "reserved", "sold"]);
+export const productItemStatusEnum = pgEnum("product_item_status", ["available", "reserved", "sold", "dead"]);
 export const orderStatusEnum = pgEnum("order_status", ["pending_payment", "pending_confirmation", "paid", "cancelled", "refunded"]);
 export const paymentMethodEnum = pgEnum("payment_method", ["qr", "wallet", "manual"]);
 export const transactionTypeEnum = pgEnum("transaction_type", ["credit", "debit"]);
 export const withdrawalStatusEnum = pgEnum("withdrawal_status", ["pending", "approved", "completed", "rejected"]);
 export const depositStatusEnum = pgEnum("deposit_status", ["pending", "approved", "rejected"]);
+export const bankTransactionStatusEnum = pgEnum("bank_transaction_status", ["matched", "unmatched", "amount_mismatch", "failed", "resolved", "ignored"]);
 export const conversationTypeEnum = pgEnum("conversation_type", ["support", "order_dispute", "seller_buyer"]);
 export const messageTypeEnum = pgEnum("message_type", ["text", "image", "file", "system"]);
-export const notificationTypeEnum = pgEnum("notification_type", ["new_order", "order_paid", "new_message", "kyc_update", "withdrawal_update", "deposit_update", "product_approved", "system", "referral_bonus", "flash_sale", "wishlist_price_drop", "warranty_claim", "dispute_update", "bundle_discount"]);
+export const notificationTypeEnum = pgEnum("notification_type", ["new_order", "order_paid", "new_message", "kyc_update", "withdrawal_update", "deposit_update", "product_approved", "system", "referral_bonus", "flash_sale", "wishlist_price_drop", "warranty_claim", "dispute_update", "bundle_discount", "wishlist_back_in_stock", "software_update", "new_device_login"]);
 export const disputeStatusEnum = pgEnum("dispute_status", ["open", "investigating", "resolved_buyer", "resolved_seller", "closed"]);
 export const warrantyStatusEnum = pgEnum("warranty_status", ["active", "claimed", "expired", "void"]);
 export const warrantyClaimStatusEnum = pgEnum("warranty_claim_status", ["pending", "approved", "rejected", "processing"]);
 export const pendingEarningStatusEnum = pgEnum("pending_earning_status", ["pending", "released", "cancelled"]);
+export const emailStatusEnum = pgEnum("email_status", ["pending", "sending", "sent", "failed"]);
+export const orderItemFlagResolutionEnum = pgEnum("order_item_flag_resolution", ["replaced", "refunded"]);
+export const itemCheckRunStatusEnum = pgEnum("item_check_run_status", ["queued", "running", "completed", "failed"]);
+export const itemImportStatusEnum = pgEnum("item_import_status", ["pending", "committed", "cancelled", "expired"]);
+export const authTokenTypeEnum = pgEnum("auth_token_type", ["password_reset", "email_verification"]);
 
 // Session storage table for Replit Auth
 export const sessions = pgTable(
@@ -57,11 +64,81 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   status: userStatusEnum("status").notNull().default("active"),
   walletBalance: decimal("wallet_balance", { precision: 18, scale: 2 }).notNull().default("0.00"),
+  emailVerifiedAt: timestamp("email_verified_at"),
   lastSeenAt: timestamp("last_seen_at").defaultNow(),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Auth Tokens - single-use password reset / email verification links. Only the SHA-256 of
+// the token is stored; the token itself is only ever in the email.
+export const authTokens = pgTable("auth_tokens", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  type: authTokenTypeEnum("type").notNull(),
+  tokenHash: varchar("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_auth_tokens_user").on(table.userId, table.type),
+]);
+
+// Two-factor authentication (TOTP). A row without enabledAt is an enrollment in progress.
+// lastUsedStep is the TOTP time step of the last accepted code, so codes can't be replayed.
+export const userTwoFactor = pgTable("user_two_factor", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  secret: varchar("secret").notNull(),
+  enabledAt: timestamp("enabled_at"),
+  lastUsedStep: integer("last_used_step"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const twoFactorBackupCodes = pgTable("two_factor_backup_codes", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  codeHash: varchar("code_hash").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_two_factor_backup_codes_user").on(table.userId),
+]);
+
+// Devices a user has logged in from, to warn about logins from new ones. fingerprint is a
+// hash of the browser + OS (see server/devices.ts).
+export const userDevices = pgTable("user_devices", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  fingerprint: varchar("fingerprint").notNull(),
+  label: varchar("label").notNull(),
+  lastIp: varchar("last_ip"),
+  firstSeenAt: timestamp("first_seen_at").defaultNow(),
+  lastSeenAt: timestamp("last_seen_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_user_devices_user_fingerprint").on(table.userId, table.fingerprint),
+]);
+
+// Rate limiting - fixed-window counters shared by all instances. key is "<group>:<ip|user>:<id>"
+export const rateLimitBuckets = pgTable("rate_limit_buckets", {
+  key: varchar("key").primaryKey(),
+  count: integer("count").notNull().default(0),
+  windowStart: timestamp("window_start").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at").notNull(),
+}, (table) => [
+  index("IDX_rate_limit_buckets_expires").on(table.expiresAt),
+]);
+
+// Failed logins per account. Every `threshold` failures lock the account for twice as long
+// as the previous lockout; a successful login clears the row.
+export const loginLockouts = pgTable("login_lockouts", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  failedAttempts: integer("failed_attempts").notNull().default(0),
+  lockoutCount: integer("lockout_count").notNull().default(0),
+  lockedUntil: timestamp("locked_until"),
+  lastFailedAt: timestamp("last_failed_at"),
+  lastIp: varchar("last_ip"),
+});
+
 // Sellers table - extended profile for sellers
 export const sellers = pgTable("sellers", {
   id: varchar("id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
@@ -89,6 +166,14 @@ export const products = pgTable("products", {
   thumbnailData: text("thumbnail_data"),
   isPinned: boolean("is_pinned").notNull().default(false),
   pinnedAt: timestamp("pinned_at"),
+  warrantyDays: integer("warranty_days").notNull().default(0), // 0 = no warranty
+  warrantyTerms: text("warranty_terms"),
+  // After delivery the buyer has this long to flag invalid accounts for an automatic
+  // replacement or refund; 0 = no verification window
+  verificationWindowMinutes: integer("verification_window_minutes").notNull().default(0),
+  // Share of checked, unsold items the last health check found live (0-100); null = never checked
+  liveRate: integer("live_rate"),
+  itemsCheckedAt: timestamp("items_checked_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -99,11 +184,61 @@ export const productItems = pgTable("product_items", {
   productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
   content: text("content").notNull(),
   uidHash: varchar("uid_hash"),
+  // Parser format of the line (server/accountParser.ts) and its non-secret fields (uid, email,
+  // username, phone); the credentials themselves only live in the encrypted content
+  accountFormat: varchar("account_format"),
+  accountFields: jsonb("account_fields"),
   status: productItemStatusEnum("status").notNull().default("available"),
   reservedUntil: timestamp("reserved_until"),
+  // Last health check (server/itemCheckers.ts); dead items are kept out of stock and allocation
+  checkedAt: timestamp("checked_at"),
+  checkNote: text("check_note"),
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Item Check Runs - one health check of a product's unsold items, queued by the seller or the
+// scheduler and worked off by the item-health-check job
+export const itemCheckRuns = pgTable("item_check_runs", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  requestedBy: varchar("requested_by").references(() => users.id, { onDelete: "set null" }), // null = scheduled
+  checker: varchar("checker"),
+  status: itemCheckRunStatusEnum("status").notNull().default("queued"),
+  checkedCount: integer("checked_count").notNull().default(0),
+  liveCount: integer("live_count").notNull().default(0),
+  deadCount: integer("dead_count").notNull().default(0),
+  unknownCount: integer("unknown_count").notNull().default(0),
+  error: text("error"),
+  createdAt: timestamp("created_at").defaultNow(),
+  startedAt: timestamp("started_at"),
+  finishedAt: timestamp("finished_at"),
+}, (table) => [
+  index("IDX_item_check_runs_product").on(table.productId, table.createdAt),
+]);
+
+// Item Imports - a parsed account upload waiting for the seller to accept it. The valid lines
+// are kept encrypted in payload until commit (or expiry, which clears it).
+export const itemImports = pgTable("item_imports", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  sellerId: varchar("seller_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").references(() => products.id, { onDelete: "cascade" }), // null until committed into a new product
+  accountFormat: varchar("account_format").notNull(),
+  status: itemImportStatusEnum("status").notNull().default("pending"),
+  totalLines: integer("total_lines").notNull().default(0),
+  validCount: integer("valid_count").notNull().default(0),
+  duplicateInFileCount: integer("duplicate_in_file_count").notNull().default(0),
+  duplicateInDbCount: integer("duplicate_in_db_count").notNull().default(0),
+  malformedCount: integer("malformed_count").notNull().default(0),
+  lineErrors: jsonb("line_errors"),
+  payload: text("payload"),
+  committedCount: integer("committed_count"),
+  expiresAt: timestamp("expires_at").notNull(),
+  committedAt: timestamp("committed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_item_imports_seller").on(table.sellerId, table.createdAt),
+]);
+
 // Files table - for software ZIP files
 export const files = pgTable("files", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -111,8 +246,25 @@ export const files = pgTable("files", {
   filePath: varchar("file_path").notNull(),
   fileName: varchar("file_name").notNull(),
   fileSize: integer("file_size").notNull(),
+  version: varchar("version").notNull().default("1.0"), // newest row per product is the current release
+  changelog: text("changelog"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("UQ_files_product_version").on(table.productId, table.version),
+]);
+
+// File Downloads - one row per download of a purchased software file
+export const fileDownloads = pgTable("file_downloads", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  fileId: varchar("file_id").notNull().references(() => files.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  ipAddress: varchar("ip_address"),
+  userAgent: text("user_agent"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_file_downloads_order").on(table.orderId),
+]);
 
 // Orders table
 export const orders = pgTable("orders", {
@@ -128,11 +280,64 @@ export const orders = pgTable("orders", {
   status: orderStatusEnum("status").notNull().default("pending_payment"),
   receiptUrl: varchar("receipt_url"),
   deliveredContent: text("delivered_content"),
+  flashSaleProductId: varchar("flash_sale_product_id").references(() => flashSaleProducts.id, { onDelete: "set null" }),
+  bundleId: varchar("bundle_id").references(() => bundles.id, { onDelete: "set null" }),
+  checkoutId: varchar("checkout_id").references(() => checkouts.id, { onDelete: "set null" }),
+  paymentConfirmedAt: timestamp("payment_confirmed_at"),
+  verifyUntil: timestamp("verify_until"), // end of the buyer's verification window, set when paid
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Order items - every product item reserved for or delivered by an order
+export const orderItems = pgTable("order_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  orderId: varchar("order_id").notNull().references(() => orders.id, { onDelete: "cascade" }),
+  productItemId: varchar("product_item_id").notNull().references(() => productItems.id, { onDelete: "cascade" }),
+  // Flagged invalid by the buyer within the verification window, and how it was settled
+  flaggedAt: timestamp("flagged_at"),
+  flagReason: text("flag_reason"),
+  flagResolution: orderItemFlagResolutionEnum("flag_resolution"),
+  replacementItemId: varchar("replacement_item_id").references(() => productItems.id, { onDelete: "set null" }),
+  refundAmount: decimal("refund_amount", { precision: 18, scale: 2 }),
+  isReplacement: boolean("is_replacement").notNull().default(false), // sent for a flagged line or warranty claim; can't be flagged again
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_order_items_order").on(table.orderId),
+  index("IDX_order_items_product_item").on(table.productItemId),
+]);
+
+// Checkouts - one payment covering several orders (a cart checkout), one child order per cart line
+export const checkouts = pgTable("checkouts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  checkoutCode: varchar("checkout_code").notNull().unique(),
+  buyerId: varchar("buyer_id").notNull().references(() => users.id),
+  totalAmount: decimal("total_amount", { precision: 18, scale: 2 }).notNull(),
+  paymentMethod: paymentMethodEnum("payment_method").notNull(),
+  status: orderStatusEnum("status").notNull().default("pending_payment"),
   paymentConfirmedAt: timestamp("payment_confirmed_at"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Carts - one persistent cart per buyer
+export const carts = pgTable("carts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }).unique(),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const cartItems = pgTable("cart_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  cartId: varchar("cart_id").notNull().references(() => carts.id, { onDelete: "cascade" }),
+  productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
+  quantity: integer("quantity").notNull().default(1),
+  unitPriceAtAdd: decimal("unit_price_at_add", { precision: 18, scale: 2 }).notNull(), // to flag price changes before checkout
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Wallet Transactions
 export const walletTransactions = pgTable("wallet_transactions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -141,6 +346,7 @@ export const walletTransactions = pgTable("wallet_transactions", {
   amount: decimal("amount", { precision: 18, scale: 2 }).notNull(),
   reason: varchar("reason"),
   relatedOrderId: varchar("related_order_id").references(() => orders.id),
+  balanceAfter: decimal("balance_after", { precision: 18, scale: 2 }), // user's wallet balance right after this entry
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -168,6 +374,46 @@ export const deposits = pgTable("deposits", {
   processedAt: timestamp("processed_at"),
 });
 
+// Bank Transactions - incoming transfers from the bank webhook or an uploaded statement,
+// matched against order / checkout / deposit codes in the transfer memo
+export const bankTransactions = pgTable("bank_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  provider: varchar("provider").notNull(), // casso, sepay, csv, stub
+  externalId: varchar("external_id").notNull(),
+  amount: decimal("amount", { precision: 18, scale: 2 }).notNull(),
+  description: text("description").notNull(),
+  transactedAt: timestamp("transacted_at"),
+  status: bankTransactionStatusEnum("status").notNull().default("unmatched"),
+  matchedType: varchar("matched_type"), // order, checkout, deposit
+  matchedId: varchar("matched_id"),
+  note: text("note"),
+  raw: jsonb("raw"),
+  reviewedBy: varchar("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  uniqueIndex("UQ_bank_transactions_provider_external").on(table.provider, table.externalId),
+  index("IDX_bank_transactions_status").on(table.status),
+]);
+
+// Jobs - scheduled background tasks. One row per job; the lock columns form a lease so
+// a run is never executed by two app instances at the same time
+export const jobs = pgTable("jobs", {
+  name: varchar("name").primaryKey(),
+  intervalSeconds: integer("interval_seconds").notNull(),
+  isEnabled: boolean("is_enabled").notNull().default(true),
+  nextRunAt: timestamp("next_run_at").notNull().defaultNow(),
+  lastStartedAt: timestamp("last_started_at"),
+  lastFinishedAt: timestamp("last_finished_at"),
+  lastStatus: varchar("last_status"), // running, succeeded, failed
+  lastResult: jsonb("last_result"),
+  lastError: text("last_error"),
+  lastDurationMs: integer("last_duration_ms"),
+  lockedBy: varchar("locked_by"),
+  lockedUntil: timestamp("locked_until"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
 // Admin Logs
 export const adminLogs = pgTable("admin_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -269,6 +515,7 @@ export const flashSales = pgTable("flash_sales", {
   startTime: timestamp("start_time").notNull(),
   endTime: timestamp("end_time").notNull(),
   isActive: boolean("is_active").notNull().default(true),
+  announcedAt: timestamp("announced_at"), // set by the flash sale job once wishlisting buyers are notified
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -290,6 +537,9 @@ export const wishlists = pgTable("wishlists", {
   productId: varchar("product_id").notNull().references(() => products.id, { onDelete: "cascade" }),
   priceAtAdd: decimal("price_at_add", { precision: 18, scale: 2 }).notNull(),
   notifyOnPriceDrop: boolean("notify_on_price_drop").notNull().default(true),
+  notifyOnRestock: boolean("notify_on_restock").notNull().default(true),
+  lastNotifiedPrice: decimal("last_notified_price", { precision: 18, scale: 2 }), // last price drop announced, so it isn't announced twice
+  restockNotifiedAt: timestamp("restock_notified_at"), // cleared when the product sells out
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -325,6 +575,7 @@ export const telegramSettings = pgTable("telegram_settings", {
   username: varchar("username"),
   isVerified: boolean("is_verified").notNull().default(false),
   verificationCode: varchar("verification_code"),
+  verificationCodeExpiresAt: timestamp("verification_code_expires_at"),
   notifyOrders: boolean("notify_orders").notNull().default(true),
   notifyMessages: boolean("notify_messages").notNull().default(true),
   notifyWithdrawals: boolean("notify_withdrawals").notNull().default(true),
@@ -345,7 +596,9 @@ export const warranties = pgTable("warranties", {
   status: warrantyStatusEnum("status").notNull().default("active"),
   terms: text("terms"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  uniqueIndex("UQ_warranties_order").on(table.orderId),
+]);
 
 // Warranty Claims - Claims made by buyers
 export const warrantyClaims = pgTable("warranty_claims", {
@@ -357,6 +610,9 @@ export const warrantyClaims = pgTable("warranty_claims", {
   status: warrantyClaimStatusEnum("status").notNull().default("pending"),
   adminNote: text("admin_note"),
   resolution: text("resolution"),
+  replacementItemId: varchar("replacement_item_id").references(() => productItems.id, { onDelete: "set null" }),
+  refundAmount: decimal("refund_amount", { precision: 18, scale: 2 }),
+  resolvedBy: varchar("resolved_by").references(() => users.id),
   createdAt: timestamp("created_at").defaultNow(),
   resolvedAt: timestamp("resolved_at"),
 });
@@ -431,6 +687,8 @@ export const notificationSettings = pgTable("notification_settings", {
   productApproved: boolean("product_approved").notNull().default(true),
   systemNotifications: boolean("system_notifications").notNull().default(true),
   emailNotifications: boolean("email_notifications").notNull().default(false),
+  emailDigest: boolean("email_digest").notNull().default(false), // one summary email a day instead of one per notification
+  lastDigestSentAt: timestamp("last_digest_sent_at"),
   soundEnabled: boolean("sound_enabled").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -449,6 +707,25 @@ export const notifications = pgTable("notifications", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Email Outbox - every email is queued here and sent by the outbox job, with retries
+export const emailOutbox = pgTable("email_outbox", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").references(() => users.id, { onDelete: "cascade" }),
+  toAddress: varchar("to_address").notNull(),
+  subject: varchar("subject").notNull(),
+  html: text("html").notNull(),
+  text: text("text").notNull(),
+  kind: varchar("kind").notNull(), // notification type, "digest" or "test"
+  status: emailStatusEnum("status").notNull().default("pending"),
+  attempts: integer("attempts").notNull().default(0),
+  nextAttemptAt: timestamp("next_attempt_at").notNull().defaultNow(),
+  lastError: text("last_error"),
+  sentAt: timestamp("sent_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("IDX_email_outbox_due").on(table.status, table.nextAttemptAt),
+]);
+
 // Relations
 export const usersRelations = relations(users, ({ one, many }) => ({
   seller: one(sellers, {
@@ -493,7 +770,7 @@ export const filesRelations = relations(files, ({ one }) => ({
   }),
 }));
 
-export const ordersRelations = relations(orders, ({ one }) => ({
+export const ordersRelations = relations(orders, ({ one, many }) => ({
   buyer: one(users, {
     fields: [orders.buyerId],
     references: [users.id],
@@ -512,6 +789,49 @@ export const ordersRelations = relations(orders, ({ one }) => ({
     fields: [orders.productItemId],
     references: [productItems.id],
   }),
+  items: many(orderItems),
+  checkout: one(checkouts, {
+    fields: [orders.checkoutId],
+    references: [checkouts.id],
+  }),
+}));
+
+export const checkoutsRelations = relations(checkouts, ({ one, many }) => ({
+  buyer: one(users, {
+    fields: [checkouts.buyerId],
+    references: [users.id],
+  }),
+  orders: many(orders),
+}));
+
+export const cartsRelations = relations(carts, ({ one, many }) => ({
+  user: one(users, {
+    fields: [carts.userId],
+    references: [users.id],
+  }),
+  items: many(cartItems),
+}));
+
+export const cartItemsRelations = relations(cartItems, ({ one }) => ({
+  cart: one(carts, {
+    fields: [cartItems.cartId],
+    references: [carts.id],
+  }),
+  product: one(products, {
+    fields: [cartItems.productId],
+    references: [products.id],
+  }),
+}));
+
+export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+  order: one(orders, {
+    fields: [orderItems.orderId],
+    references: [orders.id],
+  }),
+  productItem: one(productItems, {
+    fields: [orderItems.productItemId],
+    references: [productItems.id],
+  }),
 }));
 
 export const walletTransactionsRelations = relations(walletTransactions, ({ one }) => ({
@@ -764,12 +1084,39 @@ export const insertFileSchema = createInsertSchema(files).omit({
   createdAt: true,
 });
 
+export const insertFileDownloadSchema = createInsertSchema(fileDownloads).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertOrderSchema = createInsertSchema(orders).omit({
   id: true,
   createdAt: true,
   updatedAt: true,
 });
 
+export const insertOrderItemSchema = createInsertSchema(orderItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCheckoutSchema = createInsertSchema(checkouts).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertCartItemSchema = createInsertSchema(cartItems).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertBankTransactionSchema = createInsertSchema(bankTransactions).omit({
+  id: true,
+  createdAt: true,
+});
+
 export const insertWalletTransactionSchema = createInsertSchema(walletTransactions).omit({
   id: true,
   createdAt: true,
@@ -820,6 +1167,15 @@ export const insertNotificationSettingsSchema = createInsertSchema(notificationS
   updatedAt: true,
 });
 
+export const insertEmailOutboxSchema = createInsertSchema(emailOutbox).omit({
+  id: true,
+  status: true,
+  attempts: true,
+  lastError: true,
+  sentAt: true,
+  createdAt: true,
+});
+
 export const insertNotificationSchema = createInsertSchema(notifications).omit({
   id: true,
   createdAt: true,
@@ -837,6 +1193,7 @@ export const insertUserReferralCodeSchema = createInsertSchema(userReferralCodes
 
 export const insertFlashSaleSchema = createInsertSchema(flashSales).omit({
   id: true,
+  announcedAt: true,
   createdAt: true,
 });
 
@@ -846,6 +1203,8 @@ export const insertFlashSaleProductSchema = createInsertSchema(flashSaleProducts
 
 export const insertWishlistSchema = createInsertSchema(wishlists).omit({
   id: true,
+  lastNotifiedPrice: true,
+  restockNotifiedAt: true,
   createdAt: true,
 });
 
@@ -904,6 +1263,11 @@ export type User = typeof users.$inferSelect;
 export type UpsertUser = typeof users.$inferInsert;
 export type InsertUser = z.infer<typeof insertUserSchema>;
 
+export type AuthToken = typeof authTokens.$inferSelect;
+export type UserTwoFactor = typeof userTwoFactor.$inferSelect;
+export type LoginLockout = typeof loginLockouts.$inferSelect;
+export type UserSession = typeof sessions.$inferSelect;
+
 export type Seller = typeof sellers.$inferSelect;
 export type InsertSeller = z.infer<typeof insertSellerSchema>;
 
@@ -913,15 +1277,38 @@ export type InsertProduct = z.infer<typeof insertProductSchema>;
 export type ProductItem = typeof productItems.$inferSelect;
 export type InsertProductItem = z.infer<typeof insertProductItemSchema>;
 
+export type ItemCheckRun = typeof itemCheckRuns.$inferSelect;
+
+export type ItemImport = typeof itemImports.$inferSelect;
+export type InsertItemImport = typeof itemImports.$inferInsert;
+
 export type File = typeof files.$inferSelect;
 export type InsertFile = z.infer<typeof insertFileSchema>;
 
+export type FileDownload = typeof fileDownloads.$inferSelect;
+export type InsertFileDownload = z.infer<typeof insertFileDownloadSchema>;
+
 export type Order = typeof orders.$inferSelect;
 export type InsertOrder = z.infer<typeof insertOrderSchema>;
 
+export type OrderItem = typeof orderItems.$inferSelect;
+export type InsertOrderItem = z.infer<typeof insertOrderItemSchema>;
+
+export type Checkout = typeof checkouts.$inferSelect;
+export type InsertCheckout = z.infer<typeof insertCheckoutSchema>;
+
+export type Cart = typeof carts.$inferSelect;
+export type CartItem = typeof cartItems.$inferSelect;
+export type InsertCartItem = z.infer<typeof insertCartItemSchema>;
+
 export type WalletTransaction = typeof walletTransactions.$inferSelect;
 export type InsertWalletTransaction = z.infer<typeof insertWalletTransactionSchema>;
 
+export type BankTransaction = typeof bankTransactions.$inferSelect;
+export type InsertBankTransaction = z.infer<typeof insertBankTransactionSchema>;
+
+export type Job = typeof jobs.$inferSelect;
+
 export type Withdrawal = typeof withdrawals.$inferSelect;
 export type InsertWithdrawal = z.infer<typeof insertWithdrawalSchema>;
 
@@ -946,6 +1333,9 @@ export type InsertApiProduct = z.infer<typeof insertApiProductSchema>;
 export type NotificationSettings = typeof notificationSettings.$inferSelect;
 export type InsertNotificationSettings = z.infer<typeof insertNotificationSettingsSchema>;
 
+export type EmailOutbox = typeof emailOutbox.$inferSelect;
+export type InsertEmailOutbox = z.infer<typeof insertEmailOutboxSchema>;
+
 export type Notification = typeof notifications.$inferSelect;
 export type InsertNotification = z.infer<typeof insertNotificationSchema>;
 
@@ -1011,6 +1401,10 @@ export type OrderWithDetails = Order & {
   productItem?: ProductItem;
 };
 
+export type CartItemWithProduct = CartItem & {
+  product: Product;
+};
+
 export type SellerWithUser = Seller & {
   user: User;
 };